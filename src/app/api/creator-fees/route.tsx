@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EarningsInterval, getCreatorEarningsFromDB } from '@/lib/db/queries';
+
+const INTERVALS: EarningsInterval[] = ['hour', 'day', 'week', 'month'];
+
+/**
+ * Returns a creator's accrued and collected fees over time
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const creator = searchParams.get('creator');
+    const interval = (searchParams.get('interval') || 'day') as EarningsInterval;
+
+    if (!creator) {
+      return NextResponse.json({ error: 'Missing creator parameter' }, { status: 400 });
+    }
+
+    if (!INTERVALS.includes(interval)) {
+      return NextResponse.json(
+        { error: `Invalid interval, expected one of: ${INTERVALS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const earnings = await getCreatorEarningsFromDB(creator, interval);
+
+    if (!earnings) {
+      throw new Error('Failed to read creator earnings');
+    }
+
+    // Return the results
+    return NextResponse.json({
+      success: true,
+      ...earnings,
+    });
+  } catch (error) {
+    console.error('Error fetching creator fees:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CreatorSortField, getCreatorFromDB, getCreatorsFromDB } from '@/lib/db/queries';
+
+const SORT_FIELDS: CreatorSortField[] = ['launched', 'graduated', 'fees', 'recent'];
+const MAX_CREATORS = 500;
+
+/**
+ * Returns creators ranked by their launch statistics, or one creator's statistics
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const creator = searchParams.get('creator');
+    const sort = (searchParams.get('sort') || 'launched') as CreatorSortField;
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam !== null && limitParam !== '' ? Number(limitParam) : 50;
+    const minLaunchedParam = searchParams.get('minLaunched');
+    const minLaunched = minLaunchedParam !== null ? Number(minLaunchedParam) : undefined;
+
+    if (creator) {
+      const stats = await getCreatorFromDB(creator);
+
+      if (!stats) {
+        return NextResponse.json(
+          { error: 'No launches or fees recorded for this creator' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        creator: stats,
+      });
+    }
+
+    if (!SORT_FIELDS.includes(sort)) {
+      return NextResponse.json(
+        { error: `Invalid sort, expected one of: ${SORT_FIELDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!(Number.isInteger(limit) && limit > 0)) {
+      return NextResponse.json(
+        { error: 'Invalid limit, expected a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    if (minLaunched !== undefined && !(Number.isInteger(minLaunched) && minLaunched >= 0)) {
+      return NextResponse.json(
+        { error: 'Invalid minLaunched, expected a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    const creators = await getCreatorsFromDB({
+      sortBy: sort,
+      limit: Math.min(limit, MAX_CREATORS),
+      minLaunched,
+    });
+
+    // Return the results
+    return NextResponse.json({
+      success: true,
+      sort,
+      creators,
+    });
+  } catch (error) {
+    console.error('Error fetching creators:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProtocolParamsAtSlotFromDB, getProtocolParamsHistoryFromDB } from '@/lib/db/queries';
+
+/**
+ * Parses a slot query parameter, null when it isn't a non-negative integer
+ */
+const parseSlot = (value: string): number | null => {
+  const slot = Number(value);
+  return value.trim() !== '' && Number.isSafeInteger(slot) && slot >= 0 ? slot : null;
+};
+
+/**
+ * Returns the protocol params history, or the params in effect at one slot
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const slotParam = searchParams.get('slot');
+    const afterSlotParam = searchParams.get('afterSlot');
+
+    if (slotParam !== null) {
+      const slot = parseSlot(slotParam);
+      if (slot === null) {
+        return NextResponse.json(
+          { error: 'Invalid slot, expected a non-negative integer' },
+          { status: 400 }
+        );
+      }
+
+      const params = await getProtocolParamsAtSlotFromDB(slot);
+
+      return NextResponse.json({
+        success: true,
+        slot,
+        params,
+      });
+    }
+
+    const afterSlot = afterSlotParam !== null ? parseSlot(afterSlotParam) : undefined;
+    if (afterSlot === null) {
+      return NextResponse.json(
+        { error: 'Invalid afterSlot, expected a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    const history = await getProtocolParamsHistoryFromDB(afterSlot);
+
+    // Return the results
+    return NextResponse.json({
+      success: true,
+      history,
+    });
+  } catch (error) {
+    console.error('Error fetching protocol params:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
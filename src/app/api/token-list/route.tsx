@@ -1,6 +1,24 @@
 // Updated src/app/api/token-list/route.tsx
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllTokensFromDB, getTokenCountFromDB } from '@/lib/db/queries';
+import {
+  decodeTokenCursor,
+  getAllTokensFromDB,
+  getTokenListCountsFromDB,
+  getTokenPageFromDB,
+  TokenListCounts,
+  TokenListOptions,
+  TokenSortField,
+} from '@/lib/db/queries';
+
+const SORT_FIELDS: TokenSortField[] = ['newest', 'marketCap', 'completion', 'price'];
+
+/**
+ * Reads an optional numeric query parameter
+ */
+const numberParam = (searchParams: URLSearchParams, name: string): number | undefined => {
+  const value = searchParams.get(name);
+  return value !== null && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+};
 
 /**
  * Reads from the postgresql database and gets the tokens accordingly
@@ -12,33 +30,90 @@ export async function GET(request: NextRequest) {
     const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : undefined;
     const offset = searchParams.get('offset') ? parseInt(searchParams.get('offset')!) : undefined;
     const searchTerm = searchParams.get('search') || undefined;
+    const cursor = searchParams.get('cursor') || undefined;
     const complete = searchParams.get('complete')
       ? searchParams.get('complete') === 'true'
       : undefined;
+    const hasImage = searchParams.get('hasImage')
+      ? searchParams.get('hasImage') === 'true'
+      : undefined;
 
-    // Get tokens from DB with filtering options
-    const tokens = await getAllTokensFromDB({
+    const sort = (searchParams.get('sort') || 'newest') as TokenSortField;
+
+    if (!SORT_FIELDS.includes(sort)) {
+      return NextResponse.json(
+        { error: `Invalid sort, expected one of: ${SORT_FIELDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (cursor && offset !== undefined) {
+      return NextResponse.json({ error: 'Use either cursor or offset, not both' }, { status: 400 });
+    }
+
+    const cursorPosition = cursor ? decodeTokenCursor(cursor) : null;
+    if (cursor && (!cursorPosition || cursorPosition.sort !== sort)) {
+      return NextResponse.json(
+        { error: 'Invalid cursor, it must come from a request with the same sort' },
+        { status: 400 }
+      );
+    }
+
+    const listOptions: TokenListOptions = {
       limit,
       offset,
       searchTerm,
       complete,
-    });
+      hasImage,
+      sortBy: sort,
+      minMarketCapSol: numberParam(searchParams, 'minMarketCap'),
+      maxMarketCapSol: numberParam(searchParams, 'maxMarketCap'),
+      minCompletion: numberParam(searchParams, 'minCompletion'),
+      maxCompletion: numberParam(searchParams, 'maxCompletion'),
+    };
+
+    // Paged requests use cursors unless they ask for offsets or a relevance ranked search
+    const useCursor =
+      cursor !== undefined ||
+      (limit !== undefined && offset === undefined && !(searchTerm && sort === 'newest'));
+
+    let tokens;
+    let nextCursor: string | null = null;
+    let prevCursor: string | null = null;
+
+    if (useCursor) {
+      const page = await getTokenPageFromDB(listOptions, cursor);
+      if (!page) {
+        throw new Error('Failed to read token page');
+      }
+      ({ tokens, nextCursor, prevCursor } = page);
+    } else {
+      // Get tokens from DB with filtering options
+      tokens = await getAllTokensFromDB(listOptions);
+    }
 
-    // Get total count for pagination (only if we need it)
-    let totalCount = 0;
+    // Get filtered totals for pagination (only if we need them)
+    let counts: TokenListCounts | null = null;
     if (offset !== undefined || limit !== undefined) {
-      totalCount = await getTokenCountFromDB();
+      counts = await getTokenListCountsFromDB(listOptions);
+      if (!counts) {
+        throw new Error('Failed to count tokens');
+      }
     }
 
     // Return the results
     return NextResponse.json({
       success: true,
       tokens,
-      total: totalCount || tokens.length,
+      total: counts ? counts.total : tokens.length,
+      totalEstimated: counts?.estimated ?? false,
+      facets: counts?.facets ?? null,
+      nextCursor,
+      prevCursor,
       pagination: {
         limit,
         offset,
-        hasMore: limit !== undefined && tokens.length === limit,
+        hasMore: useCursor ? nextCursor !== null : limit !== undefined && tokens.length === limit,
         isPagedRequest: offset !== undefined || limit !== undefined,
       },
     });
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CandleInterval, getCurveCandlesFromDB } from '@/lib/db/queries';
+
+const INTERVALS: CandleInterval[] = ['1m', '5m', '1h'];
+const MAX_CANDLES = 1000;
+
+/**
+ * Reads an optional date query parameter, null when it can't be parsed
+ */
+const dateParam = (searchParams: URLSearchParams, name: string): Date | null | undefined => {
+  const value = searchParams.get(name);
+  if (value === null || value === '') return undefined;
+
+  // Unix seconds or anything Date understands
+  const date = /^\d+$/.test(value) ? new Date(Number(value) * 1000) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Returns price candles for a token from its curve snapshots
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const mint = searchParams.get('mint');
+    const interval = (searchParams.get('interval') || '5m') as CandleInterval;
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam !== null && limitParam !== '' ? Number(limitParam) : MAX_CANDLES;
+    const from = dateParam(searchParams, 'from');
+    const to = dateParam(searchParams, 'to');
+
+    if (!mint) {
+      return NextResponse.json({ error: 'Missing mint parameter' }, { status: 400 });
+    }
+
+    if (!INTERVALS.includes(interval)) {
+      return NextResponse.json(
+        { error: `Invalid interval, expected one of: ${INTERVALS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!(Number.isInteger(limit) && limit > 0)) {
+      return NextResponse.json(
+        { error: 'Invalid limit, expected a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'Invalid from or to, expected unix seconds or an ISO date' },
+        { status: 400 }
+      );
+    }
+
+    const candles = await getCurveCandlesFromDB(mint, interval, {
+      from,
+      to,
+      limit: Math.min(limit, MAX_CANDLES),
+    });
+
+    // Return the results
+    return NextResponse.json({
+      success: true,
+      mint,
+      interval,
+      candles,
+    });
+  } catch (error) {
+    console.error('Error fetching candles:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
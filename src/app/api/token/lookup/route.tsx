@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'gill';
+import { PumpFunTokenFetcher } from '@/lib/models/PumpfunTokenFetcher';
+import { PumpFunTokenLookup } from '@/lib/models/PumpfunTokenLookup';
+import { PumpFunRpcProvider } from '@/lib/models/PumpfunRpcProvider';
+import { PumpFunRpcScheduler } from '@/lib/models/PumpfunRpcScheduler';
+
+// One lookup per server so concurrent requests for a mint share its in-flight fetch
+let tokenLookup: PumpFunTokenLookup | null = null;
+
+const getTokenLookup = (): PumpFunTokenLookup => {
+  tokenLookup ??= new PumpFunTokenLookup(
+    new PumpFunTokenFetcher(
+      PumpFunRpcProvider.fromEnv(),
+      new PumpFunRpcScheduler({
+        requestsPerSecond: Number(process.env.FETCHER_RPS) || undefined,
+        concurrency: Number(process.env.FETCHER_CONCURRENCY) || undefined,
+      })
+    )
+  );
+  return tokenLookup;
+};
+
+/**
+ * Returns a token by mint, indexing it from RPC when it isn't in the database yet
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const mint = searchParams.get('mint')?.trim();
+
+    if (!mint) {
+      return NextResponse.json({ error: 'Missing mint parameter' }, { status: 400 });
+    }
+
+    if (!isAddress(mint)) {
+      return NextResponse.json(
+        { error: 'Invalid mint, expected a base58 address' },
+        { status: 400 }
+      );
+    }
+
+    const result = await getTokenLookup().lookup(mint);
+
+    if (result.status === 'not_found') {
+      return NextResponse.json({ error: 'No pump.fun token found for this mint' }, { status: 404 });
+    }
+
+    // RPC or DAS failed, the mint may still be a pump.fun token
+    if (result.status === 'failed') {
+      return NextResponse.json(
+        { error: 'Could not read the token from RPC', details: result.reason },
+        { status: 502 }
+      );
+    }
+
+    // Return the results
+    return NextResponse.json({
+      success: true,
+      token: result.token,
+      source: result.source,
+    });
+  } catch (error) {
+    console.error('Error looking up token:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
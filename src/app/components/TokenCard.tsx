@@ -6,9 +6,19 @@ interface TokenProps {
   symbol: string;
   description: string;
   image: string;
+  marketCapSol?: number;
+  completionPercent?: number;
 }
 
-export default function TokenCard({ tokenAddress, name, symbol, description, image }: TokenProps) {
+export default function TokenCard({
+  tokenAddress,
+  name,
+  symbol,
+  description,
+  image,
+  marketCapSol,
+  completionPercent,
+}: TokenProps) {
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md hover:shadow-lg transition-shadow duration-300 p-6 border border-gray-200 dark:border-gray-700">
       {/* Token Image */}
@@ -25,6 +35,24 @@ export default function TokenCard({ tokenAddress, name, symbol, description, ima
         <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-2">{description}</p>
       </div>
 
+      {/* Bonding Curve */}
+      {completionPercent !== undefined && (
+        <div className="mb-4">
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+            <span>
+              MC: {marketCapSol !== undefined ? `${marketCapSol.toFixed(1)} SOL` : 'unknown'}
+            </span>
+            <span>{completionPercent.toFixed(1)}% bonded</span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-green-500"
+              style={{ width: `${Math.min(completionPercent, 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Mint Address */}
       <div className="mb-4">
         <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Mint Address:</p>
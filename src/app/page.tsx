@@ -13,10 +13,45 @@ interface Token {
   uri: string;
   description: string;
   image: string;
+  creationTime?: string;
+  priceSol?: number;
+  marketCapSol?: number;
+  completionPercent?: number;
   createdAt?: string;
   updatedAt?: string;
 }
 
+type SortField = 'newest' | 'marketCap' | 'completion';
+
+interface ListFilters {
+  sortBy: SortField;
+  minCompletion: number;
+}
+
+const SORT_OPTIONS: { value: SortField; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'marketCap', label: 'Market cap' },
+  { value: 'completion', label: 'Bonding progress' },
+];
+
+const MIN_COMPLETION_OPTIONS = [0, 25, 50, 75, 90];
+
+/**
+ * Orders tokens the same way the API does, descending with unknown values last
+ */
+const compareTokens = (sortBy: SortField) => (a: Token, b: Token) => {
+  const chainTime = (token: Token) =>
+    new Date(token.creationTime || token.createdAt || 0).getTime();
+
+  if (sortBy !== 'newest') {
+    const field = sortBy === 'marketCap' ? 'marketCapSol' : 'completionPercent';
+    const difference = (b[field] ?? -1) - (a[field] ?? -1);
+    if (difference !== 0) return difference;
+  }
+
+  return chainTime(b) - chainTime(a);
+};
+
 interface PaginationInfo {
   currentPage: number;
   totalPages: number;
@@ -43,13 +78,20 @@ export default function Home() {
   const [isPolling, setIsPolling] = useState(false);
   const [loadedBatches, setLoadedBatches] = useState<Set<number>>(new Set());
   const [totalTokenCount, setTotalTokenCount] = useState<number>(0);
+  const [totalIsEstimated, setTotalIsEstimated] = useState(false);
   const [lastRefreshTime, setLastRefreshTime] = useState<Date | null>(null);
+  const [listFilters, setListFilters] = useState<ListFilters>({
+    sortBy: 'newest',
+    minCompletion: 0,
+  });
 
   // Refs for polling
   const lastPollTimeRef = useRef<string | null>(null);
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const isComponentMountedRef = useRef(true);
   const autoRefreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const listFiltersRef = useRef<ListFilters>(listFilters); // read by the loaders
+  const batchCursorsRef = useRef<Map<number, string>>(new Map()); // where each batch starts
 
   const TOKENS_PER_PAGE = 50;
   const TOKENS_PER_BATCH = 500; // Load 500 tokens at once (10 pages worth)
@@ -58,22 +100,34 @@ export default function Home() {
 
   // Load a specific page of tokens
   const loadTokenBatch = useCallback(
-    async (batchNumber: number) => {
-      if (loadedBatches.has(batchNumber)) {
+    async (batchNumber: number, reload: boolean = false) => {
+      if (!reload && loadedBatches.has(batchNumber)) {
         return; // Batch already loaded
       }
 
       try {
         setPageLoading(true);
 
-        // get the batch offset
-        const offset = (batchNumber - 1) * TOKENS_PER_BATCH;
+        // Batches after the first continue from the cursor the previous batch returned,
+        // so tokens arriving in the meantime don't shift them
+        const cursor = batchCursorsRef.current.get(batchNumber);
+        if (batchNumber > 1 && !cursor) {
+          console.warn(`Batch ${batchNumber - 1} has to load before batch ${batchNumber}`);
+          return;
+        }
+
+        const firstToken = (batchNumber - 1) * TOKENS_PER_BATCH + 1;
         console.log(
-          `🔄 Loading batch ${batchNumber} (tokens ${offset + 1}-${offset + TOKENS_PER_BATCH})`
+          `🔄 Loading batch ${batchNumber} (tokens ${firstToken}-${firstToken + TOKENS_PER_BATCH - 1})`
         );
 
         // NextJS api call to get tokens
-        const response = await fetch(`/api/token-list?limit=${TOKENS_PER_BATCH}&offset=${offset}`);
+        const { sortBy, minCompletion } = listFiltersRef.current;
+        const filterParams = `&sort=${sortBy}${minCompletion > 0 ? `&minCompletion=${minCompletion}` : ''}`;
+        const cursorParam = cursor ? `&cursor=${encodeURIComponent(cursor)}` : '';
+        const response = await fetch(
+          `/api/token-list?limit=${TOKENS_PER_BATCH}${cursorParam}${filterParams}`
+        );
 
         if (!response.ok) {
           throw new Error(`HTTP error! status: ${response.status}`);
@@ -93,17 +147,21 @@ export default function Home() {
               existingTokens.set(token.tokenAddress, token);
             });
 
-            // Convert back to array and sort by creation time (newest first)
-            return Array.from(existingTokens.values()).sort(
-              (a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
-            );
+            // Convert back to array and sort the way the API did
+            return Array.from(existingTokens.values()).sort(compareTokens(sortBy));
           });
 
           setLoadedBatches(prev => new Set([...prev, batchNumber]));
 
+          // The last batch has no cursor to continue from
+          if (data.nextCursor) {
+            batchCursorsRef.current.set(batchNumber + 1, data.nextCursor);
+          }
+
           // Update total count if provided
           if (data.total !== undefined) {
             setTotalTokenCount(data.total);
+            setTotalIsEstimated(data.totalEstimated === true);
           }
 
           console.log(`✅ Loaded batch ${batchNumber} (${data.tokens.length} tokens)`);
@@ -132,10 +190,12 @@ export default function Home() {
       // Clear existing data
       setAllTokens([]);
       setLoadedBatches(new Set());
+      batchCursorsRef.current.clear();
       setCurrentPage(1);
 
       // Load the first batch
-      await loadTokenBatch(1);
+      // Reload even if batch 1 was loaded, the list was just cleared
+      await loadTokenBatch(1, true);
 
       const endTime = performance.now();
       const loadTime = Math.round(endTime - startTime);
@@ -176,6 +236,10 @@ export default function Home() {
   const pollForNewTokens = useCallback(async () => {
     if (!isComponentMountedRef.current) return;
 
+    // New tokens only belong at the top of the unfiltered newest first list
+    const { sortBy, minCompletion } = listFiltersRef.current;
+    if (sortBy !== 'newest' || minCompletion > 0) return;
+
     try {
       // Just get the most recent 25 tokens from the database
       const response = await fetch('/api/token-list?limit=25');
@@ -275,6 +339,7 @@ export default function Home() {
     // Clear everything and start fresh
     setAllTokens([]);
     setLoadedBatches(new Set());
+    batchCursorsRef.current.clear();
     setNewTokensCount(0);
     setCurrentPage(1);
 
@@ -490,6 +555,15 @@ export default function Home() {
     refreshTokenList();
   };
 
+  // Sorting and filtering happen in the API, so reload from the first batch
+  const handleListFiltersChange = (changes: Partial<ListFilters>) => {
+    const nextFilters = { ...listFiltersRef.current, ...changes };
+    listFiltersRef.current = nextFilters;
+    setListFilters(nextFilters);
+    stopPolling();
+    refreshTokenList();
+  };
+
   // Component lifecycle
   useEffect(() => {
     isComponentMountedRef.current = true;
@@ -575,6 +649,7 @@ export default function Home() {
           </h1>
           <div className="text-gray-600 dark:text-gray-400 space-y-2">
             <p className="text-lg">
+              {totalIsEstimated && '~'}
               {(totalTokenCount || allTokens.length).toLocaleString()} tokens • Lightning-fast
               navigation
             </p>
@@ -654,6 +729,32 @@ export default function Home() {
               <span>Refresh</span>
             </button>
 
+            <select
+              value={listFilters.sortBy}
+              onChange={e => handleListFiltersChange({ sortBy: e.target.value as SortField })}
+              disabled={pageLoading}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  Sort: {option.label}
+                </option>
+              ))}
+            </select>
+
+            <select
+              value={listFilters.minCompletion}
+              onChange={e => handleListFiltersChange({ minCompletion: Number(e.target.value) })}
+              disabled={pageLoading}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+            >
+              {MIN_COMPLETION_OPTIONS.map(percent => (
+                <option key={percent} value={percent}>
+                  {percent === 0 ? 'Any progress' : `${percent}%+ bonded`}
+                </option>
+              ))}
+            </select>
+
             {/* <button
               onClick={() => setAutoRefreshEnabled(!autoRefreshEnabled)}
               className={`px-4 py-2 rounded-lg transition-colors duration-200 flex items-center space-x-2 ${
@@ -691,6 +792,8 @@ export default function Home() {
                 symbol={token.symbol}
                 description={token.description}
                 image={token.image}
+                marketCapSol={token.marketCapSol}
+                completionPercent={token.completionPercent}
               />
             ))}
           </div>
@@ -726,7 +829,8 @@ export default function Home() {
         {/* Footer Stats */}
         <div className="text-center py-8 border-t border-gray-200 dark:border-gray-700 mt-8">
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            Total: {(totalTokenCount || allTokens.length).toLocaleString()} tokens • Page{' '}
+            Total: {totalIsEstimated && '~'}
+            {(totalTokenCount || allTokens.length).toLocaleString()} tokens • Page{' '}
             {paginationInfo.currentPage}
             {isPolling && ' • Live updates active (1s intervals)'}
           </p>
@@ -0,0 +1,230 @@
+// src/lib/cli/fetchTokens.ts
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import { isAddress } from 'gill';
+import { PumpFunTokenFetcher } from '../models/PumpfunTokenFetcher';
+import { PumpFunRpcScheduler } from '../models/PumpfunRpcScheduler';
+import { PumpFunRpcProvider } from '../models/PumpfunRpcProvider';
+import { PumpFunCurveRefresher } from '../models/PumpfunCurveRefresher';
+import {
+  getBackfillStatsFromDB,
+  getTokenStatsFromDB,
+  insertTokenToDB,
+  rebuildCreatorsInDB,
+} from '../db/queries';
+
+dotenv.config();
+
+// Exit codes scripts can rely on
+const EXIT_OK = 0;
+const EXIT_ERROR = 1; // unexpected error, or the database/RPC couldn't be reached
+const EXIT_USAGE = 2; // unknown command or invalid option
+const EXIT_NOT_FOUND = 3; // lookup found no pump.fun token
+const EXIT_INCOMPLETE = 4; // the run finished but left failed or unread items behind
+
+const USAGE = `Usage: npm run fetch-tokens -- <command> [options]
+
+Commands:
+  backfill [--limit <n>] [--dry-run] [--concurrency <n>] [--rediscover]
+                                     index bonding curves missing from the database
+  lookup <mint> [--upsert]           print one token, and store it with --upsert
+  lookup --curve <address> [--upsert]
+                                     same, starting from a bonding curve address
+  refresh [--stale-after <duration>] [--limit <n>]
+                                     re-read active bonding curves, e.g. --stale-after 6h
+  stats                              token and backfill counts
+  rebuild-creators                   recompute creator statistics from tokens and the fee ledger
+  creation-info [--limit <n>]        find creation transactions for tokens stored without one
+
+Exit codes: 0 ok, 1 error, 2 usage, 3 not found, 4 finished with failed or unread items`;
+
+/**
+ * Parses a positive integer option, null when it is invalid
+ */
+const positiveInt = (value: string | undefined): number | null | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+/**
+ * Parses a duration like 90s, 30m, 6h or 2d, plain numbers are milliseconds
+ */
+const parseDuration = (value: string): number | null => {
+  const match = /^(\d+)(ms|s|m|h|d)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000 };
+  return Number(match[1]) * units[match[2] ?? 'ms'];
+};
+
+/**
+ * The RPC endpoints and a scheduler sized to the RPC plan, shared by every command
+ */
+const createRpc = (concurrency?: number) => {
+  const provider = PumpFunRpcProvider.fromEnv();
+
+  const scheduler = new PumpFunRpcScheduler({
+    requestsPerSecond: Number(process.env.FETCHER_RPS) || undefined,
+    concurrency: concurrency ?? (Number(process.env.FETCHER_CONCURRENCY) || undefined),
+    maxRetries: Number(process.env.FETCHER_MAX_RETRIES) || undefined,
+  });
+
+  return { provider, scheduler };
+};
+
+/**
+ * Backfill, look up, refresh and inspect tokens from the command line
+ */
+async function main() {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        limit: { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        concurrency: { type: 'string' },
+        rediscover: { type: 'boolean' },
+        curve: { type: 'string' },
+        upsert: { type: 'boolean' },
+        'stale-after': { type: 'string' },
+      },
+    });
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    console.log(USAGE);
+    return EXIT_USAGE;
+  }
+  const { values: args, positionals } = parsed;
+
+  const limit = positiveInt(args.limit);
+  if (limit === null) {
+    console.error(`❌ Invalid --limit: ${args.limit}`);
+    return EXIT_USAGE;
+  }
+
+  switch (positionals[0]) {
+    case 'backfill': {
+      const concurrency = positiveInt(args.concurrency);
+      if (concurrency === null) {
+        console.error(`❌ Invalid --concurrency: ${args.concurrency}`);
+        return EXIT_USAGE;
+      }
+
+      const { provider, scheduler } = createRpc(concurrency);
+      const fetcher = new PumpFunTokenFetcher(provider, scheduler);
+
+      const summary = await fetcher.getFreshTokenList({
+        fullAccountData: process.env.FETCHER_FULL_ACCOUNT_DATA !== 'false',
+        rediscover: args.rediscover,
+        dryRun: args['dry-run'],
+        limit,
+      });
+
+      if (args['dry-run']) return EXIT_OK;
+      return summary.failed > 0 || summary.remaining > 0 ? EXIT_INCOMPLETE : EXIT_OK;
+    }
+
+    case 'lookup': {
+      const mint = positionals[1];
+      if (!mint === !args.curve) {
+        console.error('❌ Pass either a mint or --curve <address>');
+        console.log(USAGE);
+        return EXIT_USAGE;
+      }
+
+      const target = args.curve ?? mint;
+      if (!isAddress(target)) {
+        console.error(`❌ Invalid address: ${target}, expected a base58 address`);
+        return EXIT_USAGE;
+      }
+
+      const { provider, scheduler } = createRpc();
+      const fetcher = new PumpFunTokenFetcher(provider, scheduler);
+
+      const outcome = args.curve
+        ? await fetcher.getDataWithBondingCurveAddress(args.curve)
+        : await fetcher.getTokenDocumentWithTokenAddress(mint);
+
+      if (outcome.status === 'not_found') {
+        console.error(`❌ No pump.fun token found for ${target}`);
+        return EXIT_NOT_FOUND;
+      }
+
+      if (outcome.status === 'failed') {
+        console.error(`❌ Could not read ${target}: ${outcome.reason}`);
+        return EXIT_ERROR;
+      }
+
+      const { token } = outcome;
+
+      console.log(JSON.stringify(token, null, 2));
+
+      if (args.upsert) {
+        if (!(await insertTokenToDB(token))) return EXIT_ERROR;
+        console.log(`💾 Stored ${token.symbol} (${token.tokenAddress})`);
+      }
+      return EXIT_OK;
+    }
+
+    case 'refresh': {
+      const staleAfter = args['stale-after'] ? parseDuration(args['stale-after']) : undefined;
+      if (staleAfter === null) {
+        console.error(`❌ Invalid --stale-after: ${args['stale-after']}, expected e.g. 30m or 6h`);
+        return EXIT_USAGE;
+      }
+
+      const { provider, scheduler } = createRpc();
+      const refresher = new PumpFunCurveRefresher(provider, { scheduler, maxPerRun: limit });
+
+      const result = await refresher.refreshOnce(staleAfter);
+      console.log(`📈 Refreshed ${result.refreshed} bonding curves (${result.missing} missing)`);
+
+      // Requests that gave up left some curves unread
+      return scheduler.getStats().failed > 0 ? EXIT_INCOMPLETE : EXIT_OK;
+    }
+
+    case 'stats': {
+      const tokenStats = await getTokenStatsFromDB();
+      const backfillStats = await getBackfillStatsFromDB();
+      if (!tokenStats || !backfillStats) return EXIT_ERROR;
+
+      console.log('📊 Tokens:');
+      console.log(`   total: ${tokenStats.totalTokens}`);
+      console.log(`   complete: ${tokenStats.completeTokens}`);
+      console.log(`   missing creation info: ${tokenStats.missingCreationInfo}`);
+      console.log(`   never read curve: ${tokenStats.missingCurveState}`);
+
+      console.log('📋 Backfill work list:');
+      for (const [status, total] of Object.entries(backfillStats)) {
+        console.log(`   ${status}: ${total}`);
+      }
+      return EXIT_OK;
+    }
+
+    case 'creation-info': {
+      const { provider, scheduler } = createRpc();
+      const fetcher = new PumpFunTokenFetcher(provider, scheduler);
+
+      await fetcher.fillMissingCreationInfo(limit);
+      return EXIT_OK;
+    }
+
+    case 'rebuild-creators': {
+      const written = await rebuildCreatorsInDB();
+      return written === null ? EXIT_ERROR : EXIT_OK;
+    }
+
+    default:
+      console.log(USAGE);
+      return EXIT_USAGE;
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('❌ Error in fetch-tokens command:', error);
+    process.exit(EXIT_ERROR);
+  });
@@ -0,0 +1,94 @@
+// src/lib/cli/metadataQueue.ts
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import { PumpFunMetadataQueue } from '../models/PumpfunMetadataQueue';
+import {
+  MetadataJobStatus,
+  getMetadataJobStatsFromDB,
+  getMetadataJobsFromDB,
+  retryFailedMetadataJobsInDB,
+} from '../db/queries';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run metadata-queue -- <command> [options]
+
+Commands:
+  stats                              job counts per status
+  list [--status <s>] [--limit <n>]  most recently updated jobs
+  retry [--mint <address>]           requeue failed jobs, all of them or one token's
+  run                                process due jobs until the queue is empty`;
+
+/**
+ * Inspect and operate the metadata enrichment queue
+ */
+async function main() {
+  const { values: args, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      status: { type: 'string' },
+      limit: { type: 'string' },
+      mint: { type: 'string' },
+    },
+  });
+
+  switch (positionals[0]) {
+    case 'stats': {
+      const stats = await getMetadataJobStatsFromDB();
+      if (!stats) return 1;
+
+      console.log('📊 Metadata queue:');
+      for (const [status, total] of Object.entries(stats)) {
+        console.log(`   ${status}: ${total}`);
+      }
+      return 0;
+    }
+
+    case 'list': {
+      const jobs = await getMetadataJobsFromDB({
+        status: args.status as MetadataJobStatus | undefined,
+        limit: args.limit ? parseInt(args.limit) : undefined,
+      });
+
+      for (const job of jobs) {
+        console.log(
+          `${job.status.padEnd(10)} ${job.tokenAddress} attempts=${job.attempts} ${job.uri}${
+            job.lastError ? ` (${job.lastError})` : ''
+          }`
+        );
+      }
+      return 0;
+    }
+
+    case 'retry': {
+      const requeued = await retryFailedMetadataJobsInDB(args.mint);
+      console.log(`🔁 Requeued ${requeued} failed metadata jobs`);
+      return 0;
+    }
+
+    case 'run': {
+      const queue = new PumpFunMetadataQueue();
+      let processed = 0;
+      let batch: number;
+
+      do {
+        batch = await queue.processBatch();
+        processed += batch;
+      } while (batch > 0);
+
+      console.log(`✅ Processed ${processed} metadata jobs`);
+      return 0;
+    }
+
+    default:
+      console.log(USAGE);
+      return 2;
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('❌ Error in metadata queue command:', error);
+    process.exit(1);
+  });
@@ -1,6 +1,39 @@
 import { db } from './connection';
-import { tokens } from './schema';
-import { eq, and, or, ilike, desc, asc, count, sql } from 'drizzle-orm';
+import {
+  tokens,
+  trades,
+  creatorChanges,
+  creatorFeeLedger,
+  creators,
+  curveSnapshots,
+  protocolParams,
+  listenerCheckpoints,
+  metadataJobs,
+  MetadataJob,
+  metadataCache,
+  backfillItems,
+  BackfillItem,
+} from './schema';
+import { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { TokenExtension } from '../types/types';
+import {
+  eq,
+  and,
+  or,
+  ilike,
+  desc,
+  asc,
+  count,
+  sql,
+  inArray,
+  lte,
+  lt,
+  gt,
+  gte,
+  isNull,
+  isNotNull,
+  SQL,
+} from 'drizzle-orm';
 
 // Token interface (matches your existing structure)
 export interface TokenDocument {
@@ -13,47 +46,622 @@ export interface TokenDocument {
   uri: string;
   description: string;
   image: string;
+  tokenProgram?: string;
+  tokenExtensions?: TokenExtension[];
+  completedAt?: string;
+  poolAddress?: string;
+  creationSignature?: string;
+  creationSlot?: number;
+  creationTime?: string;
+  virtualTokenReserves?: string;
+  virtualSolReserves?: string;
+  realTokenReserves?: string;
+  realSolReserves?: string;
+  tokenTotalSupply?: string;
+  priceSol?: number;
+  marketCapSol?: number;
+  completionPercent?: number;
+  curveUpdatedAt?: string;
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Fields the token list can be sorted by, all descending
+export type TokenSortField = 'newest' | 'marketCap' | 'completion' | 'price';
+
+export interface TokenListOptions {
+  limit?: number;
+  offset?: number;
+  searchTerm?: string;
+  complete?: boolean;
+  sortBy?: TokenSortField;
+  minMarketCapSol?: number;
+  maxMarketCapSol?: number;
+  minCompletion?: number;
+  maxCompletion?: number;
+  hasImage?: boolean;
+}
+
+export interface TokenFacetCounts {
+  graduated: number;
+  active: number;
+  withImage: number;
+  withoutImage: number;
+}
+
+// Counts for the filters of a token list request, each facet ignores its own filter
+export interface TokenListCounts {
+  total: number;
+  estimated: boolean; // planner estimates, used when the filtered set is large
+  facets: TokenFacetCounts;
+}
+
+export interface TokenPage {
+  tokens: TokenDocument[];
+  nextCursor: string | null; // older tokens in list order, null on the last page
+  prevCursor: string | null; // the tokens listed before this page, or inserted since on the first
+}
+
+// Where a page starts or ends, opaque to API clients
+interface TokenCursor {
+  sort: TokenSortField;
+  direction: 'next' | 'prev';
+  value: number | null; // sort column of the boundary row, null for newest or unread values
+  time: string; // chain time as Postgres prints it, which keeps the microseconds
+  id: number;
+}
+
+export interface TradeDocument {
+  signature: string;
+  logIndex: number;
+  slot: number;
+  tokenAddress: string;
+  user: string;
+  isBuy: boolean;
+  solAmount: string;
+  tokenAmount: string;
+  virtualSolReserves: string;
+  virtualTokenReserves: string;
+  realSolReserves: string;
+  realTokenReserves: string;
+  feeRecipient: string;
+  feeBasisPoints: string;
+  fee: string;
+  creator: string;
+  creatorFeeBasisPoints: string;
+  creatorFee: string;
+  timestamp: Date;
+}
+
+export interface CreatorChangeDocument {
+  signature: string;
+  logIndex: number;
+  slot: number;
+  tokenAddress: string;
+  bondingCurveAddress: string;
+  previousCreator?: string | null;
+  newCreator: string;
+  source: 'set_creator' | 'set_metaplex_creator';
+  timestamp: Date;
+}
+
+export interface CreatorFeeEntryDocument {
+  signature: string;
+  logIndex: number;
+  slot: number;
+  creator: string;
+  tokenAddress?: string | null;
+  kind: 'accrued' | 'collected';
+  amount: string;
+  timestamp: Date;
+}
+
+export type EarningsInterval = 'hour' | 'day' | 'week' | 'month';
+
+export interface CreatorEarningsPeriod {
+  period: string;
+  accrued: string;
+  collected: string;
+}
+
+export interface CreatorEarnings {
+  creator: string;
+  interval: EarningsInterval;
+  totalAccrued: string;
+  totalCollected: string;
+  periods: CreatorEarningsPeriod[];
+}
+
+export type CreatorSortField = 'launched' | 'graduated' | 'fees' | 'recent';
+
+// A creator's launch statistics, fees are accrued lamports
+export interface CreatorDocument {
+  creator: string;
+  tokensLaunched: number;
+  tokensGraduated: number;
+  graduationRate: number | null; // graduated / launched
+  firstLaunchAt: Date | null;
+  lastLaunchAt: Date | null;
+  averageGraduationSeconds: number | null; // over graduations with a known creation time
+  totalCreatorFees: string;
+}
+
+export interface CreatorListOptions {
+  sortBy?: CreatorSortField;
+  limit?: number;
+  minLaunched?: number; // defaults to 1, 0 includes fee recipients with no indexed launches
+}
+
+// A point in a bonding curve's reserve history, u64s as strings
+export interface CurveSnapshotDocument {
+  tokenAddress: string;
+  slot: number;
+  source: 'trade' | 'account';
+  signature?: string | null;
+  logIndex?: number | null;
+  virtualTokenReserves: string;
+  virtualSolReserves: string;
+  realTokenReserves: string;
+  realSolReserves: string;
+  priceSol: number;
+  timestamp: Date;
+}
+
+export type CandleInterval = '1m' | '5m' | '1h';
+
+// Open, high, low and close spot price in SOL over one interval
+export interface CurveCandle {
+  time: string; // start of the interval
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  snapshots: number; // snapshots in the interval
+}
+
+export interface CurveCandleOptions {
+  from?: Date; // candles starting at or after this time
+  to?: Date; // candles starting before this time
+  limit?: number; // max candles, the most recent ones
+}
+
+// Protocol parameters from a SetParamsEvent or a Global account snapshot, u64s as strings
+export interface ProtocolParamsDocument {
+  source: 'set_params' | 'global_account';
+  signature?: string | null;
+  logIndex?: number | null;
+  slot: number;
+  initialVirtualTokenReserves: string;
+  initialVirtualSolReserves: string;
+  initialRealTokenReserves: string;
+  finalRealSolReserves?: string | null;
+  tokenTotalSupply: string;
+  feeBasisPoints: string;
+  creatorFeeBasisPoints: string;
+  enableMigrate: boolean;
+  poolMigrationFee: string;
+  withdrawAuthority: string;
+  setCreatorAuthority: string;
+  feeRecipients: string[];
+  authority?: string | null;
+  feeRecipient?: string | null;
+  timestamp: Date;
+}
+
+export interface CheckpointDocument {
+  slot: number;
+  signature: string;
+}
+
+export type MetadataJobStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export type MetadataJobStats = Record<MetadataJobStatus, number>;
+
+// Bonding curve state read by the curve refresher
+export interface CurveStateDocument {
+  tokenAddress: string;
+  complete: boolean;
+  virtualTokenReserves: string;
+  virtualSolReserves: string;
+  realTokenReserves: string;
+  realSolReserves: string;
+  tokenTotalSupply: string;
+  priceSol: number;
+  marketCapSol: number;
+  completionPercent: number;
+}
+
+export interface CreationInfo {
+  creationSignature: string;
+  creationSlot: number;
+  creationTime: Date | null;
+}
+
+// A token still waiting for its creation transaction
+export interface MissingCreationInfo {
+  tokenAddress: string;
+  bondingCurveAddress: string;
+  attempts: number; // failed lookups so far
+  cursor: string | null; // where the last signature walk stopped, null to start from the newest
+  candidate: CreationInfo | null; // oldest successful transaction that walk found
+}
+
+export type BackfillItemStatus = 'pending' | 'done' | 'failed' | 'skipped';
+
+export type BackfillStats = Record<BackfillItemStatus, number>;
+
 export interface TokenStats {
   totalTokens: number;
+  completeTokens: number;
+  missingCreationInfo: number; // tokens stored before their creation transaction was found
+  missingCurveState: number; // tokens whose bonding curve was never read
+}
+
+/**
+ * Conflict value that only takes the incoming curve state when it is newer than the stored one
+ */
+const newerCurveValue = (column: AnyPgColumn) =>
+  sql`CASE WHEN ${tokens.curveUpdatedAt} IS NULL OR EXCLUDED.curve_updated_at > ${tokens.curveUpdatedAt} THEN COALESCE(${sql.raw(`EXCLUDED.${column.name}`)}, ${column}) ELSE ${column} END`;
+
+const curveStateConflictSet = {
+  virtualTokenReserves: newerCurveValue(tokens.virtualTokenReserves),
+  virtualSolReserves: newerCurveValue(tokens.virtualSolReserves),
+  realTokenReserves: newerCurveValue(tokens.realTokenReserves),
+  realSolReserves: newerCurveValue(tokens.realSolReserves),
+  tokenTotalSupply: newerCurveValue(tokens.tokenTotalSupply),
+  priceSol: newerCurveValue(tokens.priceSol),
+  marketCapSol: newerCurveValue(tokens.marketCapSol),
+  completionPercent: newerCurveValue(tokens.completionPercent),
+  curveUpdatedAt: newerCurveValue(tokens.curveUpdatedAt),
+};
+
+/**
+ * Conflict value for the creator, a recorded creator change wins over the launch creator a
+ * replayed CreateEvent or a backfill brings back
+ */
+const CREATOR_CONFLICT_VALUE = sql`CASE WHEN EXISTS (SELECT 1 FROM ${creatorChanges} WHERE ${creatorChanges.tokenAddress} = ${tokens.tokenAddress}) THEN ${tokens.creator} ELSE EXCLUDED.creator END`;
+
+// Newest on chain first, matches idx_tokens_chain_time
+const CHAIN_TIME = sql`COALESCE(${tokens.creationTime}, ${tokens.createdAt})`;
+
+// Token columns behind each non-default sort
+const TOKEN_SORT_KEYS = {
+  marketCap: 'marketCapSol',
+  completion: 'completionPercent',
+  price: 'priceSol',
+} as const;
+
+const DEFAULT_PAGE_SIZE = 100;
+const EXACT_COUNT_LIMIT = 100000; // above this many matches counts are estimated
+
+// A token whose metadata came with an image
+const HAS_IMAGE = sql`(${tokens.image} IS NOT NULL AND ${tokens.image} <> '')`;
+const TOKEN_SORT_FIELDS: TokenSortField[] = ['newest', 'marketCap', 'completion', 'price'];
+
+const encodeTokenCursor = (cursor: TokenCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+/**
+ * Decodes a token list cursor, null when it was tampered with or isn't one of ours
+ */
+export const decodeTokenCursor = (cursor: string): TokenCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    const valid =
+      TOKEN_SORT_FIELDS.includes(decoded.sort) &&
+      (decoded.direction === 'next' || decoded.direction === 'prev') &&
+      (decoded.value === null || Number.isFinite(decoded.value)) &&
+      typeof decoded.time === 'string' &&
+      /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/.test(decoded.time) &&
+      Number.isInteger(decoded.id);
+
+    return valid ? decoded : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Rows after a cursor in list order, or before it for prev cursors
+ * Tokens without a sort value are listed after every token that has one
+ */
+const keysetCondition = (sortColumn: AnyPgColumn | null, position: TokenCursor): SQL => {
+  const boundary = sql`(${position.time}::timestamp, ${position.id})`;
+
+  if (position.direction === 'next') {
+    const after = sql`(${CHAIN_TIME}, ${tokens.id}) < ${boundary}`;
+    if (!sortColumn) return after;
+
+    return position.value === null
+      ? and(isNull(sortColumn), after)!
+      : or(
+          isNull(sortColumn),
+          lt(sortColumn, position.value),
+          and(eq(sortColumn, position.value), after)
+        )!;
+  }
+
+  const before = sql`(${CHAIN_TIME}, ${tokens.id}) > ${boundary}`;
+  if (!sortColumn) return before;
+
+  return position.value === null
+    ? or(isNotNull(sortColumn), before)!
+    : and(
+        isNotNull(sortColumn),
+        or(gt(sortColumn, position.value), and(eq(sortColumn, position.value), before))
+      )!;
+};
+
+// Base58 public key, a search term like this is treated as a mint
+const MINT_ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+// Candle widths in seconds
+const CANDLE_INTERVAL_SECONDS: Record<CandleInterval, number> = {
+  '1m': 60,
+  '5m': 5 * 60,
+  '1h': 60 * 60,
+};
+
+// Columns a creator's statistics are derived from
+const CREATOR_TOKEN_STATE = {
+  creator: tokens.creator,
+  complete: tokens.complete,
+  completedAt: tokens.completedAt,
+  creationTime: tokens.creationTime,
+};
+
+type CreatorTokenState = {
+  creator: string;
+  complete: boolean;
+  completedAt: Date | null;
+  creationTime: Date | null;
+};
+
+// What one stored change adds to a creator's row
+interface CreatorStatsDelta {
+  tokensLaunched?: number;
+  tokensGraduated?: number;
+  launchedAt?: Date | null;
+  graduationSeconds?: number | null;
+  creatorFees?: string;
 }
 
+type DrizzleTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const CREATOR_SORT_COLUMNS = {
+  launched: creators.tokensLaunched,
+  graduated: creators.tokensGraduated,
+  fees: creators.totalCreatorFees,
+  recent: creators.lastLaunchAt,
+};
+const DEFAULT_CREATOR_LIMIT = 50;
+
+/**
+ * Seconds from creation to graduation, null until both times are known
+ */
+const graduationSeconds = (state: CreatorTokenState): number | null =>
+  state.completedAt && state.creationTime
+    ? Math.max(0, (state.completedAt.getTime() - state.creationTime.getTime()) / 1000)
+    : null;
+
+/**
+ * What a token's change adds to its creator's statistics, null when nothing changed
+ * @param {CreatorTokenState} before - the token before the write, unset for a new token
+ * @param {CreatorTokenState} after - the token as written
+ */
+const creatorStatsDelta = (
+  before: CreatorTokenState | undefined,
+  after: CreatorTokenState
+): CreatorStatsDelta | null => {
+  if (!before) {
+    return {
+      tokensLaunched: 1,
+      tokensGraduated: after.complete ? 1 : 0,
+      launchedAt: after.creationTime,
+      graduationSeconds: graduationSeconds(after),
+    };
+  }
+
+  // Each part counts once, when the token first gets it
+  const delta: CreatorStatsDelta = {
+    tokensGraduated: !before.complete && after.complete ? 1 : 0,
+    launchedAt: before.creationTime ? null : after.creationTime,
+    graduationSeconds: graduationSeconds(before) === null ? graduationSeconds(after) : null,
+  };
+
+  return delta.tokensGraduated || delta.launchedAt || delta.graduationSeconds !== null
+    ? delta
+    : null;
+};
+
+/**
+ * Launch statistics per creator aggregated from the tokens table
+ * @param {SQL} where - limits the tokens, all of them when unset
+ */
+const creatorLaunchStats = (executor: typeof db | DrizzleTransaction, where?: SQL) =>
+  executor
+    .select({
+      creator: tokens.creator,
+      tokensLaunched: sql<number>`count(*)::int`.as('tokens_launched'),
+      tokensGraduated: sql<number>`(count(*) filter (where ${tokens.complete}))::int`.as(
+        'tokens_graduated'
+      ),
+      firstLaunchAt: sql<Date | null>`min(${tokens.creationTime})`
+        .mapWith(tokens.creationTime)
+        .as('first_launch_at'),
+      lastLaunchAt: sql<Date | null>`max(${tokens.creationTime})`
+        .mapWith(tokens.creationTime)
+        .as('last_launch_at'),
+      timedGraduations:
+        sql<number>`(count(*) filter (where ${tokens.completedAt} is not null and ${tokens.creationTime} is not null))::int`.as(
+          'timed_graduations'
+        ),
+      graduationSecondsTotal:
+        sql<number>`COALESCE(sum(greatest(0, extract(epoch from (${tokens.completedAt} - ${tokens.creationTime})))), 0)`
+          .mapWith(Number)
+          .as('graduation_seconds_total'),
+    })
+    .from(tokens)
+    .where(where)
+    .groupBy(tokens.creator);
+
+/**
+ * Converts a creators row into the CreatorDocument the API returns
+ */
+const toCreatorDocument = (row: typeof creators.$inferSelect): CreatorDocument => ({
+  creator: row.creator,
+  tokensLaunched: row.tokensLaunched,
+  tokensGraduated: row.tokensGraduated,
+  graduationRate: row.tokensLaunched > 0 ? row.tokensGraduated / row.tokensLaunched : null,
+  firstLaunchAt: row.firstLaunchAt,
+  lastLaunchAt: row.lastLaunchAt,
+  averageGraduationSeconds:
+    row.timedGraduations > 0 ? row.graduationSecondsTotal / row.timedGraduations : null,
+  totalCreatorFees: row.totalCreatorFees,
+});
+
+/**
+ * Converts a tokens row into the TokenDocument the API returns
+ */
+const toTokenDocument = (row: typeof tokens.$inferSelect): TokenDocument => ({
+  bondingCurveAddress: row.bondingCurveAddress,
+  complete: row.complete,
+  creator: row.creator,
+  tokenAddress: row.tokenAddress,
+  name: row.name,
+  symbol: row.symbol,
+  uri: row.uri || '',
+  description: row.description || '',
+  image: row.image || '',
+  tokenProgram: row.tokenProgram || undefined,
+  tokenExtensions: row.tokenExtensions ?? undefined,
+  completedAt: row.completedAt?.toISOString(),
+  poolAddress: row.poolAddress || undefined,
+  creationSignature: row.creationSignature || undefined,
+  creationSlot: row.creationSlot ?? undefined,
+  creationTime: row.creationTime?.toISOString(),
+  virtualTokenReserves: row.virtualTokenReserves ?? undefined,
+  virtualSolReserves: row.virtualSolReserves ?? undefined,
+  realTokenReserves: row.realTokenReserves ?? undefined,
+  realSolReserves: row.realSolReserves ?? undefined,
+  tokenTotalSupply: row.tokenTotalSupply ?? undefined,
+  priceSol: row.priceSol ?? undefined,
+  marketCapSol: row.marketCapSol ?? undefined,
+  completionPercent: row.completionPercent ?? undefined,
+  curveUpdatedAt: row.curveUpdatedAt?.toISOString(),
+  createdAt: row.createdAt?.toISOString(),
+  updatedAt: row.updatedAt?.toISOString(),
+});
+
+/**
+ * Maps a protocol_params row to its document
+ */
+const toProtocolParamsDocument = (
+  row: typeof protocolParams.$inferSelect
+): ProtocolParamsDocument => ({
+  source: row.source as ProtocolParamsDocument['source'],
+  signature: row.signature,
+  logIndex: row.logIndex,
+  slot: row.slot,
+  initialVirtualTokenReserves: row.initialVirtualTokenReserves,
+  initialVirtualSolReserves: row.initialVirtualSolReserves,
+  initialRealTokenReserves: row.initialRealTokenReserves,
+  finalRealSolReserves: row.finalRealSolReserves,
+  tokenTotalSupply: row.tokenTotalSupply,
+  feeBasisPoints: row.feeBasisPoints,
+  creatorFeeBasisPoints: row.creatorFeeBasisPoints,
+  enableMigrate: row.enableMigrate,
+  poolMigrationFee: row.poolMigrationFee,
+  withdrawAuthority: row.withdrawAuthority,
+  setCreatorAuthority: row.setCreatorAuthority,
+  feeRecipients: row.feeRecipients,
+  authority: row.authority,
+  feeRecipient: row.feeRecipient,
+  timestamp: row.timestamp,
+});
+
+// The params a Global account snapshot carries, a snapshot that matches the entry before it adds nothing
+const SNAPSHOT_PARAM_FIELDS = [
+  'initialVirtualTokenReserves',
+  'initialVirtualSolReserves',
+  'initialRealTokenReserves',
+  'tokenTotalSupply',
+  'feeBasisPoints',
+  'creatorFeeBasisPoints',
+  'enableMigrate',
+  'poolMigrationFee',
+  'withdrawAuthority',
+  'setCreatorAuthority',
+  'feeRecipients',
+] as const;
+
 export class DrizzleDatabase {
   /**
    * Insert a single token (with conflict handling)
    */
   async insertToken(token: TokenDocument): Promise<boolean> {
     try {
-      await db
-        .insert(tokens)
-        .values({
-          bondingCurveAddress: token.bondingCurveAddress,
-          complete: token.complete,
-          creator: token.creator,
-          tokenAddress: token.tokenAddress,
-          name: token.name,
-          symbol: token.symbol,
-          uri: token.uri || '',
-          description: token.description || '',
-          image: token.image || '',
-          updatedAt: new Date(),
-        })
-        .onConflictDoUpdate({
-          target: tokens.tokenAddress,
-          set: {
-            complete: sql.raw('EXCLUDED.complete'),
-            creator: sql.raw('EXCLUDED.creator'),
-            name: sql.raw('EXCLUDED.name'),
-            symbol: sql.raw('EXCLUDED.symbol'),
-            uri: sql.raw('EXCLUDED.uri'),
-            description: sql.raw('EXCLUDED.description'),
-            image: sql.raw('EXCLUDED.image'),
+      await db.transaction(async tx => {
+        const existing = await tx
+          .select(CREATOR_TOKEN_STATE)
+          .from(tokens)
+          .where(eq(tokens.tokenAddress, token.tokenAddress))
+          .for('update');
+
+        const result = await tx
+          .insert(tokens)
+          .values({
+            bondingCurveAddress: token.bondingCurveAddress,
+            complete: token.complete,
+            creator: token.creator,
+            tokenAddress: token.tokenAddress,
+            name: token.name,
+            symbol: token.symbol,
+            uri: token.uri || '',
+            description: token.description || '',
+            image: token.image || '',
+            tokenProgram: token.tokenProgram,
+            tokenExtensions: token.tokenExtensions,
+            creationSignature: token.creationSignature,
+            creationSlot: token.creationSlot,
+            creationTime: token.creationTime ? new Date(token.creationTime) : undefined,
+            virtualTokenReserves: token.virtualTokenReserves,
+            virtualSolReserves: token.virtualSolReserves,
+            realTokenReserves: token.realTokenReserves,
+            realSolReserves: token.realSolReserves,
+            tokenTotalSupply: token.tokenTotalSupply,
+            priceSol: token.priceSol,
+            marketCapSol: token.marketCapSol,
+            completionPercent: token.completionPercent,
+            curveUpdatedAt: token.curveUpdatedAt ? new Date(token.curveUpdatedAt) : undefined,
             updatedAt: new Date(),
-          },
-        });
+          })
+          .onConflictDoUpdate({
+            target: tokens.tokenAddress,
+            set: {
+              // Graduation is one-way, a replayed CreateEvent must not undo it
+              complete: sql`${tokens.complete} OR EXCLUDED.complete`,
+              creator: CREATOR_CONFLICT_VALUE,
+              name: sql.raw('EXCLUDED.name'),
+              symbol: sql.raw('EXCLUDED.symbol'),
+              uri: sql.raw('EXCLUDED.uri'),
+              // An empty value means "not fetched yet", don't wipe what enrichment already found
+              description: sql`COALESCE(NULLIF(EXCLUDED.description, ''), ${tokens.description})`,
+              image: sql`COALESCE(NULLIF(EXCLUDED.image, ''), ${tokens.image})`,
+              tokenProgram: sql`COALESCE(EXCLUDED.token_program, ${tokens.tokenProgram})`,
+              tokenExtensions: sql`COALESCE(EXCLUDED.token_extensions, ${tokens.tokenExtensions})`,
+              creationSignature: sql`COALESCE(EXCLUDED.creation_signature, ${tokens.creationSignature})`,
+              creationSlot: sql`COALESCE(EXCLUDED.creation_slot, ${tokens.creationSlot})`,
+              creationTime: sql`COALESCE(EXCLUDED.creation_time, ${tokens.creationTime})`,
+              ...curveStateConflictSet,
+              updatedAt: new Date(),
+            },
+          })
+          .returning({ ...CREATOR_TOKEN_STATE, inserted: sql<boolean>`(xmax = 0)` });
+
+        await this.trackCreatorToken(tx, existing[0], result[0]);
+      });
 
       return true;
     } catch (error) {
@@ -79,6 +687,12 @@ export class DrizzleDatabase {
       await db.transaction(async tx => {
         for (const token of tokenList) {
           try {
+            const existing = await tx
+              .select(CREATOR_TOKEN_STATE)
+              .from(tokens)
+              .where(eq(tokens.tokenAddress, token.tokenAddress))
+              .for('update');
+
             const result = await tx
               .insert(tokens)
               .values({
@@ -91,30 +705,54 @@ export class DrizzleDatabase {
                 uri: token.uri || '',
                 description: token.description || '',
                 image: token.image || '',
+                tokenProgram: token.tokenProgram,
+                tokenExtensions: token.tokenExtensions,
+                creationSignature: token.creationSignature,
+                creationSlot: token.creationSlot,
+                creationTime: token.creationTime ? new Date(token.creationTime) : undefined,
+                virtualTokenReserves: token.virtualTokenReserves,
+                virtualSolReserves: token.virtualSolReserves,
+                realTokenReserves: token.realTokenReserves,
+                realSolReserves: token.realSolReserves,
+                tokenTotalSupply: token.tokenTotalSupply,
+                priceSol: token.priceSol,
+                marketCapSol: token.marketCapSol,
+                completionPercent: token.completionPercent,
+                curveUpdatedAt: token.curveUpdatedAt ? new Date(token.curveUpdatedAt) : undefined,
               })
               .onConflictDoUpdate({
                 target: tokens.tokenAddress,
                 set: {
-                  complete: sql.raw('EXCLUDED.complete'),
-                  creator: sql.raw('EXCLUDED.creator'),
+                  complete: sql`${tokens.complete} OR EXCLUDED.complete`,
+                  creator: CREATOR_CONFLICT_VALUE,
                   name: sql.raw('EXCLUDED.name'),
                   symbol: sql.raw('EXCLUDED.symbol'),
                   uri: sql.raw('EXCLUDED.uri'),
-                  description: sql.raw('EXCLUDED.description'),
-                  image: sql.raw('EXCLUDED.image'),
+                  description: sql`COALESCE(NULLIF(EXCLUDED.description, ''), ${tokens.description})`,
+                  image: sql`COALESCE(NULLIF(EXCLUDED.image, ''), ${tokens.image})`,
+                  tokenProgram: sql`COALESCE(EXCLUDED.token_program, ${tokens.tokenProgram})`,
+                  tokenExtensions: sql`COALESCE(EXCLUDED.token_extensions, ${tokens.tokenExtensions})`,
+                  creationSignature: sql`COALESCE(EXCLUDED.creation_signature, ${tokens.creationSignature})`,
+                  creationSlot: sql`COALESCE(EXCLUDED.creation_slot, ${tokens.creationSlot})`,
+                  creationTime: sql`COALESCE(EXCLUDED.creation_time, ${tokens.creationTime})`,
+                  ...curveStateConflictSet,
                   updatedAt: new Date(),
                 },
                 setWhere: or(
-                  sql`${tokens.complete} != EXCLUDED.complete`,
-                  sql`${tokens.creator} != EXCLUDED.creator`,
+                  sql`NOT ${tokens.complete} AND EXCLUDED.complete`,
+                  sql`${tokens.creator} != ${CREATOR_CONFLICT_VALUE}`,
                   sql`${tokens.name} != EXCLUDED.name`,
                   sql`${tokens.symbol} != EXCLUDED.symbol`,
                   sql`${tokens.uri} != EXCLUDED.uri`,
-                  sql`${tokens.description} != EXCLUDED.description`,
-                  sql`${tokens.image} != EXCLUDED.image`
+                  sql`${tokens.creationSignature} IS NULL AND EXCLUDED.creation_signature IS NOT NULL`,
+                  sql`${tokens.tokenProgram} IS NULL AND EXCLUDED.token_program IS NOT NULL`,
+                  sql`${tokens.tokenExtensions} IS NULL AND EXCLUDED.token_extensions IS NOT NULL`,
+                  sql`EXCLUDED.curve_updated_at > COALESCE(${tokens.curveUpdatedAt}, '-infinity')`
                 ),
               })
-              .returning({ id: tokens.id });
+              .returning({ ...CREATOR_TOKEN_STATE, inserted: sql<boolean>`(xmax = 0)` });
+
+            await this.trackCreatorToken(tx, existing[0], result[0]);
 
             if (result.length > 0) {
               inserted++;
@@ -136,164 +774,1841 @@ export class DrizzleDatabase {
   }
 
   /**
-   * Get all tokens with optional filtering and pagination
+   * Insert a single trade, ignoring events that were already stored
    */
-  async getAllTokens(options?: {
-    limit?: number;
-    offset?: number;
-    searchTerm?: string;
-    complete?: boolean;
-  }): Promise<TokenDocument[]> {
+  async insertTrade(trade: TradeDocument): Promise<boolean> {
     try {
-      // Build where conditions
-      const conditions = [];
-
-      if (options?.searchTerm) {
-        const searchPattern = `%${options.searchTerm}%`;
-        conditions.push(
-          or(
-            ilike(tokens.name, searchPattern),
-            ilike(tokens.symbol, searchPattern),
-            ilike(tokens.tokenAddress, searchPattern),
-            ilike(tokens.description, searchPattern)
-          )
-        );
-      }
+      await db
+        .insert(trades)
+        .values(trade)
+        .onConflictDoNothing({ target: [trades.signature, trades.logIndex] });
 
-      if (options?.complete !== undefined) {
-        conditions.push(eq(tokens.complete, options.complete));
-      }
+      return true;
+    } catch (error) {
+      console.error('❌ Error inserting trade:', error);
+      return false;
+    }
+  }
 
-      // Build query with conditional chaining
-      const baseQuery = db.select().from(tokens);
+  /**
+   * Append curve snapshots, snapshots of trades that were already stored are ignored
+   */
+  async insertCurveSnapshots(snapshots: CurveSnapshotDocument[]): Promise<boolean> {
+    if (snapshots.length === 0) return true;
 
-      const queryWithWhere =
-        conditions.length > 0 ? baseQuery.where(and(...conditions)) : baseQuery;
+    try {
+      await db
+        .insert(curveSnapshots)
+        .values(snapshots)
+        .onConflictDoNothing({ target: [curveSnapshots.signature, curveSnapshots.logIndex] });
 
-      const queryWithOrder = queryWithWhere.orderBy(desc(tokens.createdAt));
+      return true;
+    } catch (error) {
+      console.error('❌ Error inserting curve snapshots:', error);
+      return false;
+    }
+  }
 
-      const queryWithLimit = options?.limit ? queryWithOrder.limit(options.limit) : queryWithOrder;
+  /**
+   * Get price candles for a token from its curve snapshots, oldest first
+   * Intervals without snapshots are left out
+   * @param {string} tokenAddress - target mint
+   * @param {CandleInterval} interval - candle width
+   * @param {CurveCandleOptions} options - time range and how many candles to return
+   */
+  async getCurveCandles(
+    tokenAddress: string,
+    interval: CandleInterval,
+    options: CurveCandleOptions = {}
+  ): Promise<CurveCandle[]> {
+    try {
+      // interval is one of a fixed set so it is safe to inline, the bucket must match in GROUP BY
+      const seconds = CANDLE_INTERVAL_SECONDS[interval];
+      const bucket = sql.raw(
+        `to_timestamp(floor(extract(epoch from "timestamp") / ${seconds}) * ${seconds}) AT TIME ZONE 'UTC'`
+      );
 
-      const finalQuery = options?.offset ? queryWithLimit.offset(options.offset) : queryWithLimit;
+      // Chain order within a bucket. Inside a slot the log index orders one transaction's events,
+      // refresher reads (no log index) go last and the id breaks the remaining ties. Transactions
+      // sharing a slot aren't ordered by their position in the block, so that part is approximate
+      const chainOrder = sql`${curveSnapshots.slot}, ${curveSnapshots.logIndex} NULLS LAST, ${curveSnapshots.id}`;
+      const reverseChainOrder = sql`${curveSnapshots.slot} DESC, ${curveSnapshots.logIndex} DESC NULLS FIRST, ${curveSnapshots.id} DESC`;
 
-      const results = await finalQuery;
+      const conditions = [eq(curveSnapshots.tokenAddress, tokenAddress)];
+      if (options.from) conditions.push(gte(curveSnapshots.timestamp, options.from));
+      if (options.to) conditions.push(lt(curveSnapshots.timestamp, options.to));
 
-      // Convert to TokenDocument format
-      return results.map(
-        (row): TokenDocument => ({
-          bondingCurveAddress: row.bondingCurveAddress,
-          complete: row.complete,
-          creator: row.creator,
-          tokenAddress: row.tokenAddress,
-          name: row.name,
-          symbol: row.symbol,
-          uri: row.uri || '',
-          description: row.description || '',
-          image: row.image || '',
-          createdAt: row.createdAt?.toISOString(),
-          updatedAt: row.updatedAt?.toISOString(),
+      const query = db
+        .select({
+          time: sql<Date>`${bucket}`.mapWith(curveSnapshots.timestamp),
+          open: sql<number>`(array_agg(${curveSnapshots.priceSol} ORDER BY ${chainOrder}))[1]`,
+          high: sql<number>`MAX(${curveSnapshots.priceSol})`,
+          low: sql<number>`MIN(${curveSnapshots.priceSol})`,
+          close: sql<number>`(array_agg(${curveSnapshots.priceSol} ORDER BY ${reverseChainOrder}))[1]`,
+          snapshots: count(),
         })
-      );
+        .from(curveSnapshots)
+        .where(and(...conditions))
+        .groupBy(bucket)
+        .orderBy(desc(bucket));
+
+      const results = options.limit ? await query.limit(options.limit) : await query;
+
+      // Newest first keeps the limit on the most recent candles, flip them for charts
+      return results.reverse().map((row): CurveCandle => ({
+        time: row.time.toISOString(),
+        open: Number(row.open),
+        high: Number(row.high),
+        low: Number(row.low),
+        close: Number(row.close),
+        snapshots: row.snapshots,
+      }));
     } catch (error) {
-      console.error('❌ Error getting tokens from database:', error);
+      console.error('❌ Error getting curve candles:', error);
       return [];
     }
   }
 
   /**
-   * Get all unique bonding curve addresses efficiently
+   * Mark a token's bonding curve as complete, keeping the first graduation time we saw
    */
-  async getAllBondingCurveAddresses(): Promise<string[]> {
+  async markTokenComplete(tokenAddress: string, completedAt: Date): Promise<boolean> {
     try {
-      const results = await db
-        .selectDistinct({ bondingCurveAddress: tokens.bondingCurveAddress })
-        .from(tokens)
-        .where(
-          and(
-            sql`${tokens.bondingCurveAddress} IS NOT NULL`,
-            sql`${tokens.bondingCurveAddress} != ''`
-          )
-        )
-        .orderBy(asc(tokens.bondingCurveAddress));
+      return await db.transaction(async tx => {
+        const existing = await tx
+          .select(CREATOR_TOKEN_STATE)
+          .from(tokens)
+          .where(eq(tokens.tokenAddress, tokenAddress))
+          .for('update');
 
-      const addresses = results.map(row => row.bondingCurveAddress);
-      console.log(`📋 Found ${addresses.length} unique bonding curve addresses`);
-      return addresses;
+        const result = await tx
+          .update(tokens)
+          .set({
+            complete: true,
+            completedAt: sql`COALESCE(${tokens.completedAt}, ${completedAt.toISOString()})`,
+            updatedAt: new Date(),
+          })
+          .where(eq(tokens.tokenAddress, tokenAddress))
+          .returning(CREATOR_TOKEN_STATE);
+
+        await this.trackCreatorToken(tx, existing[0], result[0]);
+        return result.length > 0;
+      });
     } catch (error) {
-      console.error('❌ Error getting bonding curve addresses:', error);
-      return [];
+      console.error('❌ Error marking token complete:', error);
+      return false;
     }
   }
 
   /**
-   * Get token statistics
+   * Store the AMM pool a graduated token migrated to
    */
-  async getTokenStats(): Promise<TokenStats | null> {
+  async setTokenPool(
+    tokenAddress: string,
+    poolAddress: string,
+    migratedAt: Date
+  ): Promise<boolean> {
     try {
-      const result = await db
-        .select({
-          totalTokens: count(),
-        })
-        .from(tokens);
+      return await db.transaction(async tx => {
+        const existing = await tx
+          .select(CREATOR_TOKEN_STATE)
+          .from(tokens)
+          .where(eq(tokens.tokenAddress, tokenAddress))
+          .for('update');
 
-      return result[0] || null;
+        const result = await tx
+          .update(tokens)
+          .set({
+            complete: true,
+            completedAt: sql`COALESCE(${tokens.completedAt}, ${migratedAt.toISOString()})`,
+            poolAddress,
+            updatedAt: new Date(),
+          })
+          .where(eq(tokens.tokenAddress, tokenAddress))
+          .returning(CREATOR_TOKEN_STATE);
+
+        await this.trackCreatorToken(tx, existing[0], result[0]);
+        return result.length > 0;
+      });
     } catch (error) {
-      console.error('❌ Error getting token stats:', error);
-      return null;
+      console.error('❌ Error setting token pool:', error);
+      return false;
     }
   }
 
   /**
-   * Get token count
+   * Record a creator reassignment, pointing the token at its new creator when it is the newest
    */
-  async getTokenCount(): Promise<number> {
+  async recordCreatorChange(change: CreatorChangeDocument): Promise<boolean> {
     try {
-      const result = await db.select({ count: count() }).from(tokens);
-      return result[0]?.count || 0;
+      await db.transaction(async tx => {
+        const current = await tx
+          .select(CREATOR_TOKEN_STATE)
+          .from(tokens)
+          .where(eq(tokens.tokenAddress, change.tokenAddress))
+          .for('update');
+
+        // Backfills and replays deliver changes out of order, place this one by (slot, logIndex)
+        const isEarlier = (slot: number, logIndex: number) =>
+          or(
+            lt(creatorChanges.slot, slot),
+            and(eq(creatorChanges.slot, slot), lt(creatorChanges.logIndex, logIndex))
+          );
+        const isLater = (slot: number, logIndex: number) =>
+          or(
+            gt(creatorChanges.slot, slot),
+            and(eq(creatorChanges.slot, slot), gt(creatorChanges.logIndex, logIndex))
+          );
+
+        const preceding = await tx
+          .select({ newCreator: creatorChanges.newCreator })
+          .from(creatorChanges)
+          .where(
+            and(
+              eq(creatorChanges.tokenAddress, change.tokenAddress),
+              isEarlier(change.slot, change.logIndex)
+            )
+          )
+          .orderBy(desc(creatorChanges.slot), desc(creatorChanges.logIndex))
+          .limit(1);
+
+        const following = await tx
+          .select({ id: creatorChanges.id })
+          .from(creatorChanges)
+          .where(
+            and(
+              eq(creatorChanges.tokenAddress, change.tokenAddress),
+              isLater(change.slot, change.logIndex)
+            )
+          )
+          .orderBy(asc(creatorChanges.slot), asc(creatorChanges.logIndex))
+          .limit(1);
+
+        const isNewest = following.length === 0;
+
+        const inserted = await tx
+          .insert(creatorChanges)
+          .values({
+            ...change,
+            // The token's creator only says who came before when nothing newer was recorded
+            previousCreator:
+              preceding[0]?.newCreator ?? (isNewest ? (current[0]?.creator ?? null) : null),
+          })
+          .onConflictDoNothing({ target: [creatorChanges.signature, creatorChanges.logIndex] })
+          .returning({ id: creatorChanges.id });
+
+        // Already recorded, don't touch the token again
+        if (inserted.length === 0) return;
+
+        // An older change arriving late only fills in history, the next change came from it
+        if (!isNewest) {
+          await tx
+            .update(creatorChanges)
+            .set({ previousCreator: change.newCreator })
+            .where(eq(creatorChanges.id, following[0].id));
+          return;
+        }
+
+        const updated = await tx
+          .update(tokens)
+          .set({ creator: change.newCreator, updatedAt: new Date() })
+          .where(eq(tokens.tokenAddress, change.tokenAddress))
+          .returning(CREATOR_TOKEN_STATE);
+
+        await this.trackCreatorToken(tx, current[0], updated[0]);
+      });
+
+      return true;
     } catch (error) {
-      console.error('❌ Error getting token count:', error);
-      return 0;
+      console.error('❌ Error recording creator change:', error);
+      return false;
     }
   }
 
   /**
-   * Close database connection
+   * Get the creator history of a token, oldest change first
    */
-  async close(): Promise<void> {
+  async getCreatorHistory(tokenAddress: string): Promise<CreatorChangeDocument[]> {
     try {
-      // Note: In production, you might want to manage the pool lifecycle differently
-      console.log('✅ Database connection pool closed');
+      const results = await db
+        .select()
+        .from(creatorChanges)
+        .where(eq(creatorChanges.tokenAddress, tokenAddress))
+        .orderBy(asc(creatorChanges.slot), asc(creatorChanges.logIndex));
+
+      return results.map((row): CreatorChangeDocument => ({
+        signature: row.signature,
+        logIndex: row.logIndex,
+        slot: row.slot,
+        tokenAddress: row.tokenAddress,
+        bondingCurveAddress: row.bondingCurveAddress,
+        previousCreator: row.previousCreator,
+        newCreator: row.newCreator,
+        source: row.source as CreatorChangeDocument['source'],
+        timestamp: row.timestamp,
+      }));
     } catch (error) {
-      console.error('❌ Error closing database connection:', error);
+      console.error('❌ Error getting creator history:', error);
+      return [];
     }
   }
-}
-
-// Export singleton instance
-export const drizzleDB = new DrizzleDatabase();
 
-export async function insertTokenToDB(token: TokenDocument): Promise<boolean> {
-  return await drizzleDB.insertToken(token);
-}
+  /**
+   * Insert a creator fee ledger entry, ignoring entries that were already stored
+   */
+  async insertCreatorFeeEntry(entry: CreatorFeeEntryDocument): Promise<boolean> {
+    try {
+      await db.transaction(async tx => {
+        const inserted = await tx
+          .insert(creatorFeeLedger)
+          .values(entry)
+          .onConflictDoNothing({ target: [creatorFeeLedger.signature, creatorFeeLedger.logIndex] })
+          .returning({ id: creatorFeeLedger.id });
 
-export async function insertTokensBatchToDB(tokenList: TokenDocument[]): Promise<{
-  inserted: number;
-  duplicates: number;
-  errors: number;
-}> {
-  return await drizzleDB.insertTokensBatch(tokenList);
-}
+        // Replayed entries were already added to the creator's total
+        if (inserted.length > 0 && entry.kind === 'accrued') {
+          await this.addCreatorStats(tx, entry.creator, { creatorFees: entry.amount });
+        }
+      });
 
-export async function getAllTokensFromDB(options?: {
-  limit?: number;
-  offset?: number;
-  searchTerm?: string;
-  complete?: boolean;
-}): Promise<TokenDocument[]> {
-  return await drizzleDB.getAllTokens(options);
-}
+      return true;
+    } catch (error) {
+      console.error('❌ Error inserting creator fee entry:', error);
+      return false;
+    }
+  }
 
-export async function getAllBondingCurveAddresses() {
+  /**
+   * Get a creator's accrued and collected fees bucketed by interval, amounts are in lamports
+   */
+  async getCreatorEarnings(
+    creator: string,
+    interval: EarningsInterval = 'day'
+  ): Promise<CreatorEarnings | null> {
+    try {
+      // interval is one of a fixed set so it is safe to inline, date_trunc must match in GROUP BY
+      const period = sql.raw(`date_trunc('${interval}', "timestamp")`);
+
+      const results = await db
+        .select({
+          period: sql<Date>`${period}`.mapWith(creatorFeeLedger.timestamp),
+          accrued: sql<string>`COALESCE(SUM(${creatorFeeLedger.amount}) FILTER (WHERE ${creatorFeeLedger.kind} = 'accrued'), 0)`,
+          collected: sql<string>`COALESCE(SUM(${creatorFeeLedger.amount}) FILTER (WHERE ${creatorFeeLedger.kind} = 'collected'), 0)`,
+        })
+        .from(creatorFeeLedger)
+        .where(eq(creatorFeeLedger.creator, creator))
+        .groupBy(period)
+        .orderBy(period);
+
+      const periods = results.map((row): CreatorEarningsPeriod => ({
+        period: row.period.toISOString(),
+        accrued: String(row.accrued),
+        collected: String(row.collected),
+      }));
+
+      return {
+        creator,
+        interval,
+        totalAccrued: periods.reduce((sum, row) => sum + BigInt(row.accrued), BigInt(0)).toString(),
+        totalCollected: periods
+          .reduce((sum, row) => sum + BigInt(row.collected), BigInt(0))
+          .toString(),
+        periods,
+      };
+    } catch (error) {
+      console.error('❌ Error getting creator earnings:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get one creator's launch statistics
+   */
+  async getCreator(creator: string): Promise<CreatorDocument | null> {
+    try {
+      const results = await db.select().from(creators).where(eq(creators.creator, creator));
+      return results[0] ? toCreatorDocument(results[0]) : null;
+    } catch (error) {
+      console.error('❌ Error getting creator:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List creators ranked by launches, graduations, fees or most recent launch
+   * @param {CreatorListOptions} options - ranking, how many to return and the fewest launches to include
+   */
+  async getCreators(options: CreatorListOptions = {}): Promise<CreatorDocument[]> {
+    try {
+      const sortColumn = CREATOR_SORT_COLUMNS[options.sortBy ?? 'launched'];
+
+      const results = await db
+        .select()
+        .from(creators)
+        .where(gte(creators.tokensLaunched, options.minLaunched ?? 1))
+        .orderBy(sql`${sortColumn} DESC NULLS LAST`, asc(creators.creator))
+        .limit(options.limit ?? DEFAULT_CREATOR_LIMIT);
+
+      return results.map(toCreatorDocument);
+    } catch (error) {
+      console.error('❌ Error getting creators:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Recompute every creator's statistics from the tokens table and the fee ledger
+   * Used once after adding the table, the write paths keep it current afterwards
+   * @returns how many creators were written, null on failure
+   */
+  async rebuildCreators(): Promise<number | null> {
+    try {
+      return await db.transaction(async tx => {
+        const launches = creatorLaunchStats(tx).as('launches');
+        const fees = tx
+          .select({
+            creator: creatorFeeLedger.creator,
+            totalCreatorFees: sql<string>`sum(${creatorFeeLedger.amount})`.as('total_creator_fees'),
+          })
+          .from(creatorFeeLedger)
+          .where(eq(creatorFeeLedger.kind, 'accrued'))
+          .groupBy(creatorFeeLedger.creator)
+          .as('fees');
+
+        await tx.delete(creators);
+
+        const result = await tx.insert(creators).select(
+          tx
+            .select({
+              creator: sql<string>`COALESCE(${launches.creator}, ${fees.creator})`.as('creator'),
+              tokensLaunched: sql<number>`COALESCE(${launches.tokensLaunched}, 0)`.as(
+                'tokens_launched'
+              ),
+              tokensGraduated: sql<number>`COALESCE(${launches.tokensGraduated}, 0)`.as(
+                'tokens_graduated'
+              ),
+              firstLaunchAt: launches.firstLaunchAt,
+              lastLaunchAt: launches.lastLaunchAt,
+              timedGraduations: sql<number>`COALESCE(${launches.timedGraduations}, 0)`.as(
+                'timed_graduations'
+              ),
+              graduationSecondsTotal:
+                sql<number>`COALESCE(${launches.graduationSecondsTotal}, 0)`.as(
+                  'graduation_seconds_total'
+                ),
+              totalCreatorFees: sql<string>`COALESCE(${fees.totalCreatorFees}, 0)`.as(
+                'total_creator_fees'
+              ),
+              updatedAt: sql<Date>`now()`.as('updated_at'),
+            })
+            .from(launches)
+            .fullJoin(fees, eq(launches.creator, fees.creator))
+        );
+
+        console.log(`👤 Rebuilt statistics for ${result.rowCount ?? 0} creators`);
+        return result.rowCount ?? 0;
+      });
+    } catch (error) {
+      console.error('❌ Error rebuilding creators:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Apply a token write to its creator's statistics
+   * @param {CreatorTokenState} before - the token before the write, unset when it didn't exist
+   * @param {CreatorTokenState} after - the token as written, unset when nothing was written
+   */
+  private async trackCreatorToken(
+    tx: DrizzleTransaction,
+    before: CreatorTokenState | undefined,
+    after: (CreatorTokenState & { inserted?: boolean }) | undefined
+  ) {
+    if (!after) return;
+
+    // A concurrent writer inserted it between our read and write, and counted the launch
+    if (!after.inserted && !before) return;
+
+    // Counters can't say which part came from this token, recount both creators
+    if (!after.inserted && before && before.creator !== after.creator) {
+      await this.refreshCreatorTokenStats(tx, [before.creator, after.creator]);
+      return;
+    }
+
+    const delta = creatorStatsDelta(after.inserted ? undefined : before, after);
+    if (delta) {
+      await this.addCreatorStats(tx, after.creator, delta);
+    }
+  }
+
+  /**
+   * Add a change to a creator's counters, creating the row on first sight
+   */
+  private async addCreatorStats(
+    executor: typeof db | DrizzleTransaction,
+    creator: string,
+    delta: CreatorStatsDelta
+  ) {
+    const timed = delta.graduationSeconds !== undefined && delta.graduationSeconds !== null;
+
+    await executor
+      .insert(creators)
+      .values({
+        creator,
+        tokensLaunched: delta.tokensLaunched ?? 0,
+        tokensGraduated: delta.tokensGraduated ?? 0,
+        firstLaunchAt: delta.launchedAt ?? null,
+        lastLaunchAt: delta.launchedAt ?? null,
+        timedGraduations: timed ? 1 : 0,
+        graduationSecondsTotal: delta.graduationSeconds ?? 0,
+        totalCreatorFees: delta.creatorFees ?? '0',
+        updatedAt: new Date(),
+      })
+      .onConflictDoUpdate({
+        target: creators.creator,
+        set: {
+          tokensLaunched: sql`${creators.tokensLaunched} + EXCLUDED.tokens_launched`,
+          tokensGraduated: sql`${creators.tokensGraduated} + EXCLUDED.tokens_graduated`,
+          // LEAST and GREATEST skip nulls, unknown launch times leave the range alone
+          firstLaunchAt: sql`LEAST(${creators.firstLaunchAt}, EXCLUDED.first_launch_at)`,
+          lastLaunchAt: sql`GREATEST(${creators.lastLaunchAt}, EXCLUDED.last_launch_at)`,
+          timedGraduations: sql`${creators.timedGraduations} + EXCLUDED.timed_graduations`,
+          graduationSecondsTotal: sql`${creators.graduationSecondsTotal} + EXCLUDED.graduation_seconds_total`,
+          totalCreatorFees: sql`${creators.totalCreatorFees} + EXCLUDED.total_creator_fees`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  /**
+   * Recount the token based statistics of some creators, their fee totals are kept
+   */
+  private async refreshCreatorTokenStats(tx: DrizzleTransaction, creatorList: string[]) {
+    const stats = await creatorLaunchStats(tx, inArray(tokens.creator, creatorList));
+
+    for (const creator of creatorList) {
+      const row = stats.find(entry => entry.creator === creator);
+      const values = {
+        tokensLaunched: row?.tokensLaunched ?? 0,
+        tokensGraduated: row?.tokensGraduated ?? 0,
+        firstLaunchAt: row?.firstLaunchAt ?? null,
+        lastLaunchAt: row?.lastLaunchAt ?? null,
+        timedGraduations: row?.timedGraduations ?? 0,
+        graduationSecondsTotal: row?.graduationSecondsTotal ?? 0,
+        updatedAt: new Date(),
+      };
+
+      await tx
+        .insert(creators)
+        .values({ creator, ...values })
+        .onConflictDoUpdate({ target: creators.creator, set: values });
+    }
+  }
+
+  /**
+   * Record a protocol params change or Global account snapshot, events already stored are ignored
+   * Snapshots have no signature to conflict on, so one is only stored when the params changed
+   */
+  async insertProtocolParams(params: ProtocolParamsDocument): Promise<boolean> {
+    try {
+      if (params.source === 'global_account') {
+        const [latest] = await db
+          .select()
+          .from(protocolParams)
+          .where(lte(protocolParams.slot, params.slot))
+          .orderBy(desc(protocolParams.slot), desc(protocolParams.id))
+          .limit(1);
+
+        const unchanged =
+          latest &&
+          SNAPSHOT_PARAM_FIELDS.every(
+            field => JSON.stringify(latest[field]) === JSON.stringify(params[field])
+          );
+        if (unchanged) return true;
+      }
+
+      await db.insert(protocolParams).values(params).onConflictDoNothing();
+      return true;
+    } catch (error) {
+      console.error('❌ Error inserting protocol params:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the protocol params history, oldest first
+   * @param {number} afterSlot - only entries after this slot
+   */
+  async getProtocolParamsHistory(afterSlot?: number): Promise<ProtocolParamsDocument[]> {
+    try {
+      const results = await db
+        .select()
+        .from(protocolParams)
+        .where(afterSlot !== undefined ? gt(protocolParams.slot, afterSlot) : undefined)
+        .orderBy(asc(protocolParams.slot), asc(protocolParams.id));
+
+      return results.map(toProtocolParamsDocument);
+    } catch (error) {
+      console.error('❌ Error getting protocol params history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the protocol params in effect at a slot, the latest entry at or before it
+   */
+  async getProtocolParamsAtSlot(slot: number): Promise<ProtocolParamsDocument | null> {
+    try {
+      const result = await db
+        .select()
+        .from(protocolParams)
+        .where(lte(protocolParams.slot, slot))
+        .orderBy(desc(protocolParams.slot), desc(protocolParams.id))
+        .limit(1);
+
+      return result[0] ? toProtocolParamsDocument(result[0]) : null;
+    } catch (error) {
+      console.error('❌ Error getting protocol params at slot:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the last transaction a listener processed
+   */
+  async getListenerCheckpoint(name: string): Promise<CheckpointDocument | null> {
+    try {
+      const result = await db
+        .select({ slot: listenerCheckpoints.slot, signature: listenerCheckpoints.signature })
+        .from(listenerCheckpoints)
+        .where(eq(listenerCheckpoints.name, name));
+
+      return result[0] || null;
+    } catch (error) {
+      console.error('❌ Error getting listener checkpoint:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the last transaction a listener processed, never moving the checkpoint backwards
+   */
+  async saveListenerCheckpoint(name: string, checkpoint: CheckpointDocument): Promise<boolean> {
+    try {
+      await db
+        .insert(listenerCheckpoints)
+        .values({ name, ...checkpoint, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: listenerCheckpoints.name,
+          set: {
+            slot: sql.raw('EXCLUDED.slot'),
+            signature: sql.raw('EXCLUDED.signature'),
+            updatedAt: new Date(),
+          },
+          setWhere: sql`${listenerCheckpoints.slot} <= EXCLUDED.slot`,
+        });
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error saving listener checkpoint:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Queue a metadata fetch for a token, a token only ever has one job
+   */
+  async enqueueMetadataJob(tokenAddress: string, uri: string): Promise<boolean> {
+    try {
+      await db
+        .insert(metadataJobs)
+        .values({ tokenAddress, uri })
+        .onConflictDoNothing({ target: metadataJobs.tokenAddress });
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error enqueueing metadata job:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Claim due jobs for processing, jobs stuck in processing past the lease are claimed again
+   * SKIP LOCKED lets several workers share the queue without double work
+   */
+  async claimMetadataJobs(limit: number, leaseMs: number): Promise<MetadataJob[]> {
+    try {
+      const now = new Date();
+      const leaseExpiredAt = new Date(now.getTime() - leaseMs);
+
+      const dueJobs = db
+        .select({ id: metadataJobs.id })
+        .from(metadataJobs)
+        .where(
+          or(
+            and(eq(metadataJobs.status, 'pending'), lte(metadataJobs.nextAttemptAt, now)),
+            and(eq(metadataJobs.status, 'processing'), lt(metadataJobs.updatedAt, leaseExpiredAt))
+          )
+        )
+        .orderBy(asc(metadataJobs.nextAttemptAt))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+
+      return await db
+        .update(metadataJobs)
+        .set({ status: 'processing', updatedAt: now })
+        .where(inArray(metadataJobs.id, dueJobs))
+        .returning();
+    } catch (error) {
+      console.error('❌ Error claiming metadata jobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Fill in the token's metadata and close its job
+   */
+  async completeMetadataJob(
+    job: MetadataJob,
+    metadata: { description: string; image: string }
+  ): Promise<boolean> {
+    try {
+      await db.transaction(async tx => {
+        await tx
+          .update(tokens)
+          .set({
+            description: metadata.description,
+            image: metadata.image,
+            updatedAt: new Date(),
+          })
+          .where(eq(tokens.tokenAddress, job.tokenAddress));
+
+        await tx
+          .update(metadataJobs)
+          .set({ status: 'done', lastError: null, updatedAt: new Date() })
+          .where(eq(metadataJobs.id, job.id));
+      });
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error completing metadata job:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record a failed attempt, the job is retried at nextAttemptAt or marked failed when null
+   */
+  async failMetadataJob(
+    job: MetadataJob,
+    errorMessage: string,
+    nextAttemptAt: Date | null
+  ): Promise<boolean> {
+    try {
+      await db
+        .update(metadataJobs)
+        .set({
+          status: nextAttemptAt ? 'pending' : 'failed',
+          attempts: job.attempts + 1,
+          lastError: errorMessage,
+          nextAttemptAt: nextAttemptAt ?? job.nextAttemptAt,
+          updatedAt: new Date(),
+        })
+        .where(eq(metadataJobs.id, job.id));
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error failing metadata job:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Number of metadata jobs in each status
+   */
+  async getMetadataJobStats(): Promise<MetadataJobStats | null> {
+    try {
+      const results = await db
+        .select({ status: metadataJobs.status, count: count() })
+        .from(metadataJobs)
+        .groupBy(metadataJobs.status);
+
+      const stats: MetadataJobStats = { pending: 0, processing: 0, done: 0, failed: 0 };
+      for (const row of results) {
+        stats[row.status as MetadataJobStatus] = row.count;
+      }
+
+      return stats;
+    } catch (error) {
+      console.error('❌ Error getting metadata job stats:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List metadata jobs, most recently updated first
+   */
+  async getMetadataJobs(options?: {
+    status?: MetadataJobStatus;
+    limit?: number;
+  }): Promise<MetadataJob[]> {
+    try {
+      const baseQuery = db.select().from(metadataJobs);
+
+      const queryWithWhere = options?.status
+        ? baseQuery.where(eq(metadataJobs.status, options.status))
+        : baseQuery;
+
+      return await queryWithWhere.orderBy(desc(metadataJobs.updatedAt)).limit(options?.limit || 50);
+    } catch (error) {
+      console.error('❌ Error getting metadata jobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Put failed jobs back in the queue, all of them or just one token's
+   */
+  async retryFailedMetadataJobs(tokenAddress?: string): Promise<number> {
+    try {
+      const conditions = [eq(metadataJobs.status, 'failed')];
+      if (tokenAddress) {
+        conditions.push(eq(metadataJobs.tokenAddress, tokenAddress));
+      }
+
+      const result = await db
+        .update(metadataJobs)
+        .set({ status: 'pending', attempts: 0, nextAttemptAt: new Date(), updatedAt: new Date() })
+        .where(and(...conditions))
+        .returning({ id: metadataJobs.id });
+
+      return result.length;
+    } catch (error) {
+      console.error('❌ Error retrying metadata jobs:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Add bonding curves to the backfill work list, curves already on it are left alone
+   * @returns the number of curves added
+   */
+  async enqueueBackfillItems(bondingCurveAddresses: string[]): Promise<number> {
+    // Stay well under the Postgres parameter limit on large diffs
+    const CHUNK_SIZE = 1000;
+    let added = 0;
+
+    try {
+      for (let i = 0; i < bondingCurveAddresses.length; i += CHUNK_SIZE) {
+        const chunk = bondingCurveAddresses.slice(i, i + CHUNK_SIZE);
+
+        const result = await db
+          .insert(backfillItems)
+          .values(chunk.map(bondingCurveAddress => ({ bondingCurveAddress })))
+          .onConflictDoNothing({ target: backfillItems.bondingCurveAddress })
+          .returning({ id: backfillItems.id });
+
+        added += result.length;
+      }
+
+      return added;
+    } catch (error) {
+      console.error('❌ Error enqueueing backfill items:', error);
+      return added;
+    }
+  }
+
+  /**
+   * Get the next pending backfill items in work list order
+   * @param {number} limit - page size
+   * @param {number} afterId - keyset cursor, the last id of the previous page
+   */
+  async getPendingBackfillItems(limit: number, afterId: number = 0): Promise<BackfillItem[]> {
+    try {
+      return await db
+        .select()
+        .from(backfillItems)
+        .where(and(eq(backfillItems.status, 'pending'), gt(backfillItems.id, afterId)))
+        .orderBy(asc(backfillItems.id))
+        .limit(limit);
+    } catch (error) {
+      console.error('❌ Error getting pending backfill items:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record the outcome of backfill items
+   * @param {string[]} bondingCurveAddresses - items to update
+   * @param {BackfillItemStatus} status - new status
+   * @param {string | null} reason - why the items failed or were skipped
+   */
+  async markBackfillItems(
+    bondingCurveAddresses: string[],
+    status: BackfillItemStatus,
+    reason: string | null = null
+  ): Promise<boolean> {
+    if (bondingCurveAddresses.length === 0) return true;
+
+    try {
+      await db
+        .update(backfillItems)
+        .set({
+          status,
+          reason,
+          attempts: sql`${backfillItems.attempts} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(inArray(backfillItems.bondingCurveAddress, bondingCurveAddresses));
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating backfill items:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Count backfill items per status
+   */
+  async getBackfillStats(): Promise<BackfillStats | null> {
+    try {
+      const results = await db
+        .select({ status: backfillItems.status, count: count() })
+        .from(backfillItems)
+        .groupBy(backfillItems.status);
+
+      const stats: BackfillStats = { pending: 0, done: 0, failed: 0, skipped: 0 };
+      for (const row of results) {
+        stats[row.status as BackfillItemStatus] = row.count;
+      }
+
+      return stats;
+    } catch (error) {
+      console.error('❌ Error getting backfill stats:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Put failed backfill items back to pending so the next run retries them
+   * @returns the number of items requeued
+   */
+  async retryFailedBackfillItems(): Promise<number> {
+    try {
+      const result = await db
+        .update(backfillItems)
+        .set({ status: 'pending', reason: null, updatedAt: new Date() })
+        .where(eq(backfillItems.status, 'failed'))
+        .returning({ id: backfillItems.id });
+
+      return result.length;
+    } catch (error) {
+      console.error('❌ Error retrying backfill items:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get a cached metadata document by content key
+   */
+  async getCachedMetadata(contentKey: string): Promise<Record<string, unknown> | null> {
+    try {
+      const result = await db
+        .select({ document: metadataCache.document })
+        .from(metadataCache)
+        .where(eq(metadataCache.contentKey, contentKey));
+
+      return result[0]?.document || null;
+    } catch (error) {
+      console.error('❌ Error reading metadata cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get many cached metadata documents by content key
+   * @returns documents by content key, keys that aren't cached are left out
+   */
+  async getCachedMetadataBatch(
+    contentKeys: string[]
+  ): Promise<Map<string, Record<string, unknown>>> {
+    const documents = new Map<string, Record<string, unknown>>();
+    if (contentKeys.length === 0) return documents;
+
+    try {
+      const result = await db
+        .select({ contentKey: metadataCache.contentKey, document: metadataCache.document })
+        .from(metadataCache)
+        .where(inArray(metadataCache.contentKey, contentKeys));
+
+      for (const { contentKey, document } of result) {
+        documents.set(contentKey, document);
+      }
+      return documents;
+    } catch (error) {
+      console.error('❌ Error reading metadata cache:', error);
+      return documents;
+    }
+  }
+
+  /**
+   * Cache a metadata document, content addressed documents never change so the first write wins
+   */
+  async cacheMetadata(
+    contentKey: string,
+    uri: string,
+    document: Record<string, unknown>
+  ): Promise<boolean> {
+    try {
+      await db
+        .insert(metadataCache)
+        .values({ contentKey, uri, document })
+        .onConflictDoNothing({ target: metadataCache.contentKey });
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error writing metadata cache:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Where conditions for the token list filters, plus the relevance order when searching
+   */
+  private tokenListFilters(options?: TokenListOptions): { conditions: SQL[]; searchOrder: SQL[] } {
+    const conditions: SQL[] = [];
+    let searchOrder: SQL[] = [];
+    const searchTerm = options?.searchTerm?.trim();
+
+    if (searchTerm) {
+      const lowerTerm = searchTerm.toLowerCase();
+      const escapedTerm = lowerTerm.replace(/[\\%_]/g, '\\$&');
+      const prefixPattern = `${escapedTerm}%`;
+      const query = sql`plainto_tsquery('simple', ${searchTerm})`;
+
+      // Every branch is served by an index: symbol prefix, name trigrams and the tsvector
+      conditions.push(
+        or(
+          sql`lower(${tokens.symbol}) LIKE ${prefixPattern}`,
+          ilike(tokens.name, `%${escapedTerm}%`),
+          sql`${searchTerm} <% ${tokens.name}`,
+          sql`${tokens.searchVector} @@ ${query}`
+        )!
+      );
+
+      // Exact symbol, then symbol prefix, then the closest names and descriptions
+      searchOrder = [
+        sql`CASE WHEN lower(${tokens.symbol}) = ${lowerTerm} THEN 0 WHEN lower(${tokens.symbol}) LIKE ${prefixPattern} THEN 1 ELSE 2 END`,
+        sql`GREATEST(word_similarity(${searchTerm}, ${tokens.name}), ts_rank(${tokens.searchVector}, ${query})) DESC`,
+      ];
+    }
+
+    if (options?.complete !== undefined) {
+      conditions.push(eq(tokens.complete, options.complete));
+    }
+
+    if (options?.minMarketCapSol !== undefined) {
+      conditions.push(gte(tokens.marketCapSol, options.minMarketCapSol));
+    }
+    if (options?.maxMarketCapSol !== undefined) {
+      conditions.push(lte(tokens.marketCapSol, options.maxMarketCapSol));
+    }
+    if (options?.minCompletion !== undefined) {
+      conditions.push(gte(tokens.completionPercent, options.minCompletion));
+    }
+    if (options?.maxCompletion !== undefined) {
+      conditions.push(lte(tokens.completionPercent, options.maxCompletion));
+    }
+
+    if (options?.hasImage !== undefined) {
+      conditions.push(options.hasImage ? HAS_IMAGE : sql`NOT ${HAS_IMAGE}`);
+    }
+
+    return { conditions, searchOrder };
+  }
+
+  /**
+   * Get all tokens with optional filtering and pagination
+   */
+  async getAllTokens(options?: TokenListOptions): Promise<TokenDocument[]> {
+    try {
+      const searchTerm = options?.searchTerm?.trim();
+
+      // A pasted mint is an exact lookup, nothing else can rank above it
+      if (searchTerm && MINT_ADDRESS_PATTERN.test(searchTerm)) {
+        const token = await this.getTokenByAddress(searchTerm);
+        if (token) return options?.offset ? [] : [token];
+      }
+
+      const { conditions, searchOrder } = this.tokenListFilters(options);
+
+      // Build query with conditional chaining
+      const baseQuery = db.select().from(tokens);
+
+      const queryWithWhere =
+        conditions.length > 0 ? baseQuery.where(and(...conditions)) : baseQuery;
+
+      const queryWithOrder =
+        options?.sortBy && options.sortBy !== 'newest'
+          ? queryWithWhere.orderBy(
+              // Tokens the refresher hasn't read yet go last
+              sql`${tokens[TOKEN_SORT_KEYS[options.sortBy]]} DESC NULLS LAST`,
+              desc(CHAIN_TIME),
+              desc(tokens.id)
+            )
+          : // Searches rank by relevance, newest breaks ties
+            queryWithWhere.orderBy(...searchOrder, desc(CHAIN_TIME), desc(tokens.id));
+
+      const queryWithLimit = options?.limit ? queryWithOrder.limit(options.limit) : queryWithOrder;
+
+      const finalQuery = options?.offset ? queryWithLimit.offset(options.offset) : queryWithLimit;
+
+      const results = await finalQuery;
+
+      // Convert to TokenDocument format
+      return results.map(toTokenDocument);
+    } catch (error) {
+      console.error('❌ Error getting tokens from database:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get one page of the token list after or before a cursor
+   * Pages are keyed on the sort value, chain time and id, so tokens inserted while paging
+   * never shift later pages. Searches keep the list order instead of ranking by relevance
+   * @param {TokenListOptions} options - filters, sort and page size, offset is ignored
+   * @param {string} cursor - nextCursor or prevCursor of the previous page, first page when unset
+   * @returns null when the cursor is invalid, doesn't match the sort or the query failed
+   */
+  async getTokenPage(options: TokenListOptions, cursor?: string): Promise<TokenPage | null> {
+    try {
+      const sortBy = options.sortBy ?? 'newest';
+      const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+      const position = cursor ? decodeTokenCursor(cursor) : null;
+      if (cursor && (!position || position.sort !== sortBy)) return null;
+
+      const searchTerm = options.searchTerm?.trim();
+      if (!position && searchTerm && MINT_ADDRESS_PATTERN.test(searchTerm)) {
+        const token = await this.getTokenByAddress(searchTerm);
+        if (token) return { tokens: [token], nextCursor: null, prevCursor: null };
+      }
+
+      const { conditions } = this.tokenListFilters(options);
+      const sortKey = sortBy !== 'newest' ? TOKEN_SORT_KEYS[sortBy] : null;
+      const sortColumn = sortKey ? tokens[sortKey] : null;
+      const backwards = position?.direction === 'prev';
+
+      if (position) {
+        conditions.push(keysetCondition(sortColumn, position));
+      }
+
+      // prev pages walk the list in reverse and are flipped back below
+      const order = backwards
+        ? [
+            ...(sortColumn ? [sql`${sortColumn} ASC NULLS FIRST`] : []),
+            asc(CHAIN_TIME),
+            asc(tokens.id),
+          ]
+        : [
+            ...(sortColumn ? [sql`${sortColumn} DESC NULLS LAST`] : []),
+            desc(CHAIN_TIME),
+            desc(tokens.id),
+          ];
+
+      // One extra row tells us whether there is another page
+      const results = await db
+        .select({ token: tokens, chainTime: sql<string>`${CHAIN_TIME}::text` })
+        .from(tokens)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(...order)
+        .limit(limit + 1);
+
+      const hasMore = results.length > limit;
+      const rows = results.slice(0, limit);
+      if (backwards) rows.reverse();
+
+      const cursorFor = (row: (typeof rows)[number], direction: TokenCursor['direction']) =>
+        encodeTokenCursor({
+          sort: sortBy,
+          direction,
+          value: sortKey ? (row.token[sortKey] ?? null) : null,
+          time: row.chainTime,
+          id: row.token.id,
+        });
+
+      const first = rows[0];
+      const last = rows[rows.length - 1];
+
+      return {
+        tokens: rows.map(row => toTokenDocument(row.token)),
+        // Walking back from a later page there is always the page we came from
+        nextCursor: last && (backwards || hasMore) ? cursorFor(last, 'next') : null,
+        // The first page gets one too, it picks up tokens inserted since
+        prevCursor: first && (!backwards || hasMore) ? cursorFor(first, 'prev') : null,
+      };
+    } catch (error) {
+      console.error('❌ Error getting token page from database:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get one token by its mint
+   * @param {string} tokenAddress - target mint
+   * @returns the token, null when it isn't in the database or the query failed
+   */
+  async getTokenByAddress(tokenAddress: string): Promise<TokenDocument | null> {
+    try {
+      const result = await db
+        .select()
+        .from(tokens)
+        .where(eq(tokens.tokenAddress, tokenAddress))
+        .limit(1);
+
+      return result[0] ? toTokenDocument(result[0]) : null;
+    } catch (error) {
+      console.error('❌ Error getting token from database:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get active tokens whose bonding curve is due a re-read: never read, traded since the
+   * last read, or not read since staleBefore. Least recently read first
+   * @param {number} limit - max tokens to return
+   * @param {Date} staleBefore - curves read before this are refreshed even without trades
+   */
+  async getTokensDueForCurveRefresh(
+    limit: number,
+    staleBefore: Date
+  ): Promise<{ tokenAddress: string; bondingCurveAddress: string; creationSlot: number | null }[]> {
+    try {
+      return await db
+        .select({
+          tokenAddress: tokens.tokenAddress,
+          bondingCurveAddress: tokens.bondingCurveAddress,
+          creationSlot: tokens.creationSlot,
+        })
+        .from(tokens)
+        .where(
+          and(
+            eq(tokens.complete, false),
+            or(
+              sql`${tokens.curveUpdatedAt} IS NULL`,
+              lt(tokens.curveUpdatedAt, staleBefore),
+              sql`EXISTS (SELECT 1 FROM ${trades} WHERE ${trades.tokenAddress} = ${tokens.tokenAddress} AND ${trades.timestamp} > ${tokens.curveUpdatedAt})`
+            )
+          )
+        )
+        .orderBy(sql`${tokens.curveUpdatedAt} ASC NULLS FIRST`)
+        .limit(limit);
+    } catch (error) {
+      console.error('❌ Error getting tokens due for a curve refresh:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Store freshly read bonding curve states
+   * @param {CurveStateDocument[]} states - one per token
+   */
+  async updateTokenCurveStates(states: CurveStateDocument[]): Promise<boolean> {
+    if (states.length === 0) return true;
+
+    try {
+      const now = new Date();
+
+      await db.transaction(async tx => {
+        for (const { tokenAddress, ...state } of states) {
+          const existing = await tx
+            .select(CREATOR_TOKEN_STATE)
+            .from(tokens)
+            .where(eq(tokens.tokenAddress, tokenAddress))
+            .for('update');
+
+          const result = await tx
+            .update(tokens)
+            .set({
+              ...state,
+              complete: sql`${tokens.complete} OR ${state.complete}`,
+              // A graduation found by reading the account is dated when we first saw it
+              completedAt: state.complete
+                ? sql`COALESCE(${tokens.completedAt}, ${now.toISOString()})`
+                : undefined,
+              curveUpdatedAt: now,
+              updatedAt: now,
+            })
+            .where(eq(tokens.tokenAddress, tokenAddress))
+            .returning(CREATOR_TOKEN_STATE);
+
+          // Graduations the refresher finds count for the creator like CompleteEvents do
+          await this.trackCreatorToken(tx, existing[0], result[0]);
+        }
+      });
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating token curve states:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Mark curves as read without changing their state, e.g. when the account is gone
+   * @param {string[]} tokenAddresses - tokens to mark
+   */
+  async touchTokenCurves(tokenAddresses: string[]): Promise<boolean> {
+    if (tokenAddresses.length === 0) return true;
+
+    try {
+      await db
+        .update(tokens)
+        .set({ curveUpdatedAt: new Date() })
+        .where(inArray(tokens.tokenAddress, tokenAddresses));
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error touching token curves:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get tokens whose creation transaction hasn't been resolved yet and are due a lookup,
+   * never tried rows first and then the ones that have waited longest
+   */
+  async getTokensMissingCreationInfo(limit: number): Promise<MissingCreationInfo[]> {
+    try {
+      const rows = await db
+        .select({
+          tokenAddress: tokens.tokenAddress,
+          bondingCurveAddress: tokens.bondingCurveAddress,
+          attempts: tokens.creationInfoAttempts,
+          cursor: tokens.creationInfoCursor,
+          creationSignature: tokens.creationSignature,
+          creationSlot: tokens.creationSlot,
+          creationTime: tokens.creationTime,
+        })
+        .from(tokens)
+        .where(
+          and(
+            sql`(${tokens.creationSignature} IS NULL OR ${tokens.creationInfoCursor} IS NOT NULL)`,
+            or(isNull(tokens.creationInfoRetryAt), lte(tokens.creationInfoRetryAt, new Date()))
+          )
+        )
+        .orderBy(sql`${tokens.creationInfoRetryAt} ASC NULLS FIRST`, asc(tokens.id))
+        .limit(limit);
+
+      return rows.map(({ creationSignature, creationSlot, creationTime, ...row }) => ({
+        ...row,
+        candidate:
+          creationSignature !== null && creationSlot !== null
+            ? { creationSignature, creationSlot, creationTime }
+            : null,
+      }));
+    } catch (error) {
+      console.error('❌ Error getting tokens missing creation info:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Store a token's creation transaction
+   * @param {CreationInfo | null} info - the creation transaction, or the best candidate so far
+   * @param {string | null} cursor - set when the signature walk isn't finished, the token goes to
+   * the back of the queue and the next walk resumes from here
+   */
+  async updateTokenCreationInfo(
+    tokenAddress: string,
+    info: CreationInfo | null,
+    cursor: string | null = null
+  ): Promise<boolean> {
+    try {
+      await db.transaction(async tx => {
+        const existing = await tx
+          .select(CREATOR_TOKEN_STATE)
+          .from(tokens)
+          .where(eq(tokens.tokenAddress, tokenAddress))
+          .for('update');
+
+        const result = await tx
+          .update(tokens)
+          .set({
+            ...info,
+            creationInfoCursor: cursor,
+            creationInfoRetryAt: cursor ? new Date() : undefined,
+            updatedAt: new Date(),
+          })
+          .where(eq(tokens.tokenAddress, tokenAddress))
+          .returning(CREATOR_TOKEN_STATE);
+
+        // The launch time and time to graduation were unknown until now
+        await this.trackCreatorToken(tx, existing[0], result[0]);
+      });
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating token creation info:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record a failed creation lookup, the token isn't tried again before retryAt
+   */
+  async failTokenCreationInfo(tokenAddress: string, retryAt: Date): Promise<boolean> {
+    try {
+      await db
+        .update(tokens)
+        .set({
+          creationInfoAttempts: sql`${tokens.creationInfoAttempts} + 1`,
+          creationInfoRetryAt: retryAt,
+        })
+        .where(eq(tokens.tokenAddress, tokenAddress));
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error recording failed token creation lookup:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get all unique bonding curve addresses efficiently
+   */
+  async getAllBondingCurveAddresses(): Promise<string[]> {
+    try {
+      const results = await db
+        .selectDistinct({ bondingCurveAddress: tokens.bondingCurveAddress })
+        .from(tokens)
+        .where(
+          and(
+            sql`${tokens.bondingCurveAddress} IS NOT NULL`,
+            sql`${tokens.bondingCurveAddress} != ''`
+          )
+        )
+        .orderBy(asc(tokens.bondingCurveAddress));
+
+      const addresses = results.map(row => row.bondingCurveAddress);
+      console.log(`📋 Found ${addresses.length} unique bonding curve addresses`);
+      return addresses;
+    } catch (error) {
+      console.error('❌ Error getting bonding curve addresses:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get token statistics
+   */
+  async getTokenStats(): Promise<TokenStats | null> {
+    try {
+      const result = await db
+        .select({
+          totalTokens: count(),
+          completeTokens: sql<number>`count(*) filter (where ${tokens.complete})`.mapWith(Number),
+          missingCreationInfo:
+            sql<number>`count(*) filter (where ${tokens.creationSignature} is null)`.mapWith(
+              Number
+            ),
+          missingCurveState:
+            sql<number>`count(*) filter (where ${tokens.curveUpdatedAt} is null)`.mapWith(Number),
+        })
+        .from(tokens);
+
+      return result[0] || null;
+    } catch (error) {
+      console.error('❌ Error getting token stats:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Count the tokens matching a token list request, with graduated/active and image facets
+   * Small sets are counted exactly, large ones are estimated by the planner and flagged
+   * @param {TokenListOptions} options - the list filters, paging and sort are ignored
+   */
+  async getTokenListCounts(options: TokenListOptions = {}): Promise<TokenListCounts | null> {
+    try {
+      const searchTerm = options.searchTerm?.trim();
+
+      // A pasted mint lists just that token, count it the same way
+      if (searchTerm && MINT_ADDRESS_PATTERN.test(searchTerm)) {
+        const token = await this.getTokenByAddress(searchTerm);
+        if (token) {
+          const hasImage = token.image !== '';
+          return {
+            total: 1,
+            estimated: false,
+            facets: {
+              graduated: token.complete ? 1 : 0,
+              active: token.complete ? 0 : 1,
+              withImage: hasImage ? 1 : 0,
+              withoutImage: hasImage ? 0 : 1,
+            },
+          };
+        }
+      }
+
+      // Facets ignore their own filter so every chip shows what picking it would give
+      const { conditions } = this.tokenListFilters({
+        ...options,
+        complete: undefined,
+        hasImage: undefined,
+      });
+      const completeFilter =
+        options.complete === undefined
+          ? sql`TRUE`
+          : options.complete
+            ? sql`${tokens.complete}`
+            : sql`NOT ${tokens.complete}`;
+      const imageFilter =
+        options.hasImage === undefined
+          ? sql`TRUE`
+          : options.hasImage
+            ? HAS_IMAGE
+            : sql`NOT ${HAS_IMAGE}`;
+
+      const facetConditions = {
+        total: and(completeFilter, imageFilter)!,
+        graduated: and(sql`${tokens.complete}`, imageFilter)!,
+        active: and(sql`NOT ${tokens.complete}`, imageFilter)!,
+        withImage: and(HAS_IMAGE, completeFilter)!,
+        withoutImage: and(sql`NOT ${HAS_IMAGE}`, completeFilter)!,
+      };
+
+      const estimatedTotal = await this.estimateTokenCount([...conditions, facetConditions.total]);
+
+      if (estimatedTotal > EXACT_COUNT_LIMIT) {
+        const [graduated, active, withImage, withoutImage] = await Promise.all(
+          [
+            facetConditions.graduated,
+            facetConditions.active,
+            facetConditions.withImage,
+            facetConditions.withoutImage,
+          ].map(facet => this.estimateTokenCount([...conditions, facet]))
+        );
+
+        return {
+          total: estimatedTotal,
+          estimated: true,
+          facets: { graduated, active, withImage, withoutImage },
+        };
+      }
+
+      // One scan counts the total and every facet
+      const filterCount = (condition: SQL) =>
+        sql<number>`count(*) filter (where ${condition})`.mapWith(Number);
+
+      const result = await db
+        .select({
+          total: filterCount(facetConditions.total),
+          graduated: filterCount(facetConditions.graduated),
+          active: filterCount(facetConditions.active),
+          withImage: filterCount(facetConditions.withImage),
+          withoutImage: filterCount(facetConditions.withoutImage),
+        })
+        .from(tokens)
+        .where(conditions.length > 0 ? and(...conditions) : undefined);
+
+      const { total, ...facets } = result[0];
+      return { total, estimated: false, facets };
+    } catch (error) {
+      console.error('❌ Error counting token list:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The planner's row estimate for tokens matching the conditions, no rows are read
+   */
+  private async estimateTokenCount(conditions: SQL[]): Promise<number> {
+    const result = await db.execute<{ 'QUERY PLAN': [{ Plan: { 'Plan Rows': number } }] }>(
+      sql`EXPLAIN (FORMAT JSON) SELECT 1 FROM ${tokens} WHERE ${and(...conditions)}`
+    );
+
+    return Math.round(result.rows[0]['QUERY PLAN'][0].Plan['Plan Rows']);
+  }
+
+  /**
+   * Get token count
+   */
+  async getTokenCount(): Promise<number> {
+    try {
+      const result = await db.select({ count: count() }).from(tokens);
+      return result[0]?.count || 0;
+    } catch (error) {
+      console.error('❌ Error getting token count:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Close database connection
+   */
+  async close(): Promise<void> {
+    try {
+      // Note: In production, you might want to manage the pool lifecycle differently
+      console.log('✅ Database connection pool closed');
+    } catch (error) {
+      console.error('❌ Error closing database connection:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const drizzleDB = new DrizzleDatabase();
+
+export async function insertTokenToDB(token: TokenDocument): Promise<boolean> {
+  return await drizzleDB.insertToken(token);
+}
+
+export async function insertTokensBatchToDB(tokenList: TokenDocument[]): Promise<{
+  inserted: number;
+  duplicates: number;
+  errors: number;
+}> {
+  return await drizzleDB.insertTokensBatch(tokenList);
+}
+
+export async function insertTradeToDB(trade: TradeDocument): Promise<boolean> {
+  return await drizzleDB.insertTrade(trade);
+}
+
+export async function insertCurveSnapshotsToDB(
+  snapshots: CurveSnapshotDocument[]
+): Promise<boolean> {
+  return await drizzleDB.insertCurveSnapshots(snapshots);
+}
+
+export async function getCurveCandlesFromDB(
+  tokenAddress: string,
+  interval: CandleInterval,
+  options?: CurveCandleOptions
+): Promise<CurveCandle[]> {
+  return await drizzleDB.getCurveCandles(tokenAddress, interval, options);
+}
+
+export async function markTokenCompleteInDB(
+  tokenAddress: string,
+  completedAt: Date
+): Promise<boolean> {
+  return await drizzleDB.markTokenComplete(tokenAddress, completedAt);
+}
+
+export async function setTokenPoolInDB(
+  tokenAddress: string,
+  poolAddress: string,
+  migratedAt: Date
+): Promise<boolean> {
+  return await drizzleDB.setTokenPool(tokenAddress, poolAddress, migratedAt);
+}
+
+export async function recordCreatorChangeInDB(change: CreatorChangeDocument): Promise<boolean> {
+  return await drizzleDB.recordCreatorChange(change);
+}
+
+export async function getCreatorHistoryFromDB(
+  tokenAddress: string
+): Promise<CreatorChangeDocument[]> {
+  return await drizzleDB.getCreatorHistory(tokenAddress);
+}
+
+export async function insertCreatorFeeEntryToDB(entry: CreatorFeeEntryDocument): Promise<boolean> {
+  return await drizzleDB.insertCreatorFeeEntry(entry);
+}
+
+export async function getCreatorEarningsFromDB(
+  creator: string,
+  interval?: EarningsInterval
+): Promise<CreatorEarnings | null> {
+  return await drizzleDB.getCreatorEarnings(creator, interval);
+}
+
+export async function getCreatorFromDB(creator: string): Promise<CreatorDocument | null> {
+  return await drizzleDB.getCreator(creator);
+}
+
+export async function getCreatorsFromDB(options?: CreatorListOptions): Promise<CreatorDocument[]> {
+  return await drizzleDB.getCreators(options);
+}
+
+export async function rebuildCreatorsInDB(): Promise<number | null> {
+  return await drizzleDB.rebuildCreators();
+}
+
+export async function insertProtocolParamsToDB(params: ProtocolParamsDocument): Promise<boolean> {
+  return await drizzleDB.insertProtocolParams(params);
+}
+
+export async function getProtocolParamsHistoryFromDB(
+  afterSlot?: number
+): Promise<ProtocolParamsDocument[]> {
+  return await drizzleDB.getProtocolParamsHistory(afterSlot);
+}
+
+export async function getProtocolParamsAtSlotFromDB(
+  slot: number
+): Promise<ProtocolParamsDocument | null> {
+  return await drizzleDB.getProtocolParamsAtSlot(slot);
+}
+
+export async function getListenerCheckpointFromDB(
+  name: string
+): Promise<CheckpointDocument | null> {
+  return await drizzleDB.getListenerCheckpoint(name);
+}
+
+export async function saveListenerCheckpointToDB(
+  name: string,
+  checkpoint: CheckpointDocument
+): Promise<boolean> {
+  return await drizzleDB.saveListenerCheckpoint(name, checkpoint);
+}
+
+export async function enqueueMetadataJobToDB(tokenAddress: string, uri: string): Promise<boolean> {
+  return await drizzleDB.enqueueMetadataJob(tokenAddress, uri);
+}
+
+export async function claimMetadataJobsFromDB(
+  limit: number,
+  leaseMs: number
+): Promise<MetadataJob[]> {
+  return await drizzleDB.claimMetadataJobs(limit, leaseMs);
+}
+
+export async function completeMetadataJobInDB(
+  job: MetadataJob,
+  metadata: { description: string; image: string }
+): Promise<boolean> {
+  return await drizzleDB.completeMetadataJob(job, metadata);
+}
+
+export async function failMetadataJobInDB(
+  job: MetadataJob,
+  errorMessage: string,
+  nextAttemptAt: Date | null
+): Promise<boolean> {
+  return await drizzleDB.failMetadataJob(job, errorMessage, nextAttemptAt);
+}
+
+export async function getMetadataJobStatsFromDB(): Promise<MetadataJobStats | null> {
+  return await drizzleDB.getMetadataJobStats();
+}
+
+export async function getMetadataJobsFromDB(options?: {
+  status?: MetadataJobStatus;
+  limit?: number;
+}): Promise<MetadataJob[]> {
+  return await drizzleDB.getMetadataJobs(options);
+}
+
+export async function retryFailedMetadataJobsInDB(tokenAddress?: string): Promise<number> {
+  return await drizzleDB.retryFailedMetadataJobs(tokenAddress);
+}
+
+export async function enqueueBackfillItemsToDB(bondingCurveAddresses: string[]): Promise<number> {
+  return await drizzleDB.enqueueBackfillItems(bondingCurveAddresses);
+}
+
+export async function getPendingBackfillItemsFromDB(
+  limit: number,
+  afterId?: number
+): Promise<BackfillItem[]> {
+  return await drizzleDB.getPendingBackfillItems(limit, afterId);
+}
+
+export async function markBackfillItemsInDB(
+  bondingCurveAddresses: string[],
+  status: BackfillItemStatus,
+  reason?: string | null
+): Promise<boolean> {
+  return await drizzleDB.markBackfillItems(bondingCurveAddresses, status, reason);
+}
+
+export async function getBackfillStatsFromDB(): Promise<BackfillStats | null> {
+  return await drizzleDB.getBackfillStats();
+}
+
+export async function retryFailedBackfillItemsInDB(): Promise<number> {
+  return await drizzleDB.retryFailedBackfillItems();
+}
+
+export async function getCachedMetadataFromDB(
+  contentKey: string
+): Promise<Record<string, unknown> | null> {
+  return await drizzleDB.getCachedMetadata(contentKey);
+}
+
+export async function getCachedMetadataBatchFromDB(
+  contentKeys: string[]
+): Promise<Map<string, Record<string, unknown>>> {
+  return await drizzleDB.getCachedMetadataBatch(contentKeys);
+}
+
+export async function cacheMetadataToDB(
+  contentKey: string,
+  uri: string,
+  document: Record<string, unknown>
+): Promise<boolean> {
+  return await drizzleDB.cacheMetadata(contentKey, uri, document);
+}
+
+export async function getAllTokensFromDB(options?: TokenListOptions): Promise<TokenDocument[]> {
+  return await drizzleDB.getAllTokens(options);
+}
+
+export async function getTokenPageFromDB(
+  options: TokenListOptions,
+  cursor?: string
+): Promise<TokenPage | null> {
+  return await drizzleDB.getTokenPage(options, cursor);
+}
+
+export async function getTokenByAddressFromDB(tokenAddress: string): Promise<TokenDocument | null> {
+  return await drizzleDB.getTokenByAddress(tokenAddress);
+}
+
+export async function getTokensDueForCurveRefreshFromDB(
+  limit: number,
+  staleBefore: Date
+): Promise<{ tokenAddress: string; bondingCurveAddress: string; creationSlot: number | null }[]> {
+  return await drizzleDB.getTokensDueForCurveRefresh(limit, staleBefore);
+}
+
+export async function updateTokenCurveStatesInDB(states: CurveStateDocument[]): Promise<boolean> {
+  return await drizzleDB.updateTokenCurveStates(states);
+}
+
+export async function touchTokenCurvesInDB(tokenAddresses: string[]): Promise<boolean> {
+  return await drizzleDB.touchTokenCurves(tokenAddresses);
+}
+
+export async function getTokensMissingCreationInfoFromDB(
+  limit: number
+): Promise<MissingCreationInfo[]> {
+  return await drizzleDB.getTokensMissingCreationInfo(limit);
+}
+
+export async function updateTokenCreationInfoInDB(
+  tokenAddress: string,
+  info: CreationInfo | null,
+  cursor?: string | null
+): Promise<boolean> {
+  return await drizzleDB.updateTokenCreationInfo(tokenAddress, info, cursor);
+}
+
+export async function failTokenCreationInfoInDB(
+  tokenAddress: string,
+  retryAt: Date
+): Promise<boolean> {
+  return await drizzleDB.failTokenCreationInfo(tokenAddress, retryAt);
+}
+
+export async function getAllBondingCurveAddresses() {
   return await drizzleDB.getAllBondingCurveAddresses();
 }
 
@@ -301,6 +2616,12 @@ export async function getTokenStatsFromDB(): Promise<TokenStats | null> {
   return await drizzleDB.getTokenStats();
 }
 
+export async function getTokenListCountsFromDB(
+  options?: TokenListOptions
+): Promise<TokenListCounts | null> {
+  return await drizzleDB.getTokenListCounts(options);
+}
+
 export async function getTokenCountFromDB(): Promise<number> {
   return await drizzleDB.getTokenCount();
 }
@@ -1,4 +1,27 @@
-import { pgTable, serial, text, boolean, timestamp, index } from 'drizzle-orm/pg-core';
+import {
+  pgTable,
+  serial,
+  text,
+  boolean,
+  timestamp,
+  index,
+  integer,
+  bigint,
+  numeric,
+  uniqueIndex,
+  jsonb,
+  doublePrecision,
+  customType,
+} from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { TokenExtension } from '../types/types';
+
+// Postgres full text document, drizzle has no built-in column for it
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
 
 export const tokens = pgTable(
   'tokens',
@@ -13,6 +36,35 @@ export const tokens = pgTable(
     uri: text('uri'),
     description: text('description'),
     image: text('image'),
+    // Program that owns the mint (classic SPL Token or Token-2022) and the mint's extensions
+    tokenProgram: text('token_program'),
+    tokenExtensions: jsonb('token_extensions').$type<TokenExtension[]>(),
+    // Set from CompleteEvent / CompletePumpAmmMigrationEvent when the curve graduates
+    completedAt: timestamp('completed_at'),
+    poolAddress: text('pool_address'),
+    // Creation transaction, createdAt is only when we inserted the row
+    creationSignature: text('creation_signature'),
+    creationSlot: bigint('creation_slot', { mode: 'number' }),
+    creationTime: timestamp('creation_time'),
+    // Lookups that haven't found the creation transaction yet, retried with backoff
+    creationInfoAttempts: integer('creation_info_attempts').notNull().default(0),
+    creationInfoRetryAt: timestamp('creation_info_retry_at'),
+    // Where a signature walk that ran out of pages resumes, the creation columns hold its best candidate
+    creationInfoCursor: text('creation_info_cursor'),
+    // Latest bonding curve state, kept current by the curve refresher
+    virtualTokenReserves: numeric('virtual_token_reserves', { precision: 20, scale: 0 }),
+    virtualSolReserves: numeric('virtual_sol_reserves', { precision: 20, scale: 0 }),
+    realTokenReserves: numeric('real_token_reserves', { precision: 20, scale: 0 }),
+    realSolReserves: numeric('real_sol_reserves', { precision: 20, scale: 0 }),
+    tokenTotalSupply: numeric('token_total_supply', { precision: 20, scale: 0 }),
+    priceSol: doublePrecision('price_sol'),
+    marketCapSol: doublePrecision('market_cap_sol'),
+    completionPercent: doublePrecision('completion_percent'),
+    curveUpdatedAt: timestamp('curve_updated_at'),
+    // Weighted symbol, name and description words, maintained by Postgres
+    searchVector: tsvector('search_vector').generatedAlwaysAs(
+      sql`setweight(to_tsvector('simple', coalesce(symbol, '')), 'A') || setweight(to_tsvector('simple', coalesce(name, '')), 'B') || setweight(to_tsvector('simple', coalesce(description, '')), 'C')`
+    ),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
   },
@@ -24,9 +76,307 @@ export const tokens = pgTable(
     index('idx_tokens_name').on(table.name),
     index('idx_tokens_complete').on(table.complete),
     index('idx_tokens_creator').on(table.creator),
+    index('idx_tokens_token_program').on(table.tokenProgram),
     index('idx_tokens_created_at').on(table.createdAt),
+    // Chain time first, insert time for rows we haven't resolved yet, id keeps cursors unique
+    index('idx_tokens_chain_time').on(
+      sql`COALESCE(${table.creationTime}, ${table.createdAt})`,
+      table.id
+    ),
+    // Sorted token lists, in the same order as their keyset pages
+    index('idx_tokens_market_cap_sol').on(
+      table.marketCapSol.desc().nullsLast(),
+      sql`COALESCE(${table.creationTime}, ${table.createdAt}) DESC`,
+      table.id.desc()
+    ),
+    index('idx_tokens_completion_percent').on(
+      table.completionPercent.desc().nullsLast(),
+      sql`COALESCE(${table.creationTime}, ${table.createdAt}) DESC`,
+      table.id.desc()
+    ),
+    index('idx_tokens_price_sol').on(
+      table.priceSol.desc().nullsLast(),
+      sql`COALESCE(${table.creationTime}, ${table.createdAt}) DESC`,
+      table.id.desc()
+    ),
+    index('idx_tokens_curve_updated_at').on(table.curveUpdatedAt),
+    index('idx_tokens_creation_info_retry_at')
+      .on(table.creationInfoRetryAt, table.id)
+      .where(sql`${table.creationSignature} IS NULL OR ${table.creationInfoCursor} IS NOT NULL`),
+    // Search, exact and prefix symbol matches, fuzzy names (pg_trgm) and full text
+    index('idx_tokens_symbol_lower').on(sql`lower(${table.symbol}) text_pattern_ops`),
+    index('idx_tokens_name_trgm').using('gin', table.name.op('gin_trgm_ops')),
+    index('idx_tokens_search_vector').using('gin', table.searchVector),
+  ]
+);
+
+// u64 amounts are stored as numeric(20, 0) so they never lose precision
+export const trades = pgTable(
+  'trades',
+  {
+    id: serial('id').primaryKey(),
+    signature: text('signature').notNull(),
+    logIndex: integer('log_index').notNull(),
+    slot: bigint('slot', { mode: 'number' }).notNull(),
+    tokenAddress: text('token_address').notNull(),
+    user: text('user').notNull(),
+    isBuy: boolean('is_buy').notNull(),
+    solAmount: numeric('sol_amount', { precision: 20, scale: 0 }).notNull(),
+    tokenAmount: numeric('token_amount', { precision: 20, scale: 0 }).notNull(),
+    virtualSolReserves: numeric('virtual_sol_reserves', { precision: 20, scale: 0 }).notNull(),
+    virtualTokenReserves: numeric('virtual_token_reserves', { precision: 20, scale: 0 }).notNull(),
+    realSolReserves: numeric('real_sol_reserves', { precision: 20, scale: 0 }).notNull(),
+    realTokenReserves: numeric('real_token_reserves', { precision: 20, scale: 0 }).notNull(),
+    feeRecipient: text('fee_recipient').notNull(),
+    feeBasisPoints: numeric('fee_basis_points', { precision: 20, scale: 0 }).notNull(),
+    fee: numeric('fee', { precision: 20, scale: 0 }).notNull(),
+    creator: text('creator').notNull(),
+    creatorFeeBasisPoints: numeric('creator_fee_basis_points', {
+      precision: 20,
+      scale: 0,
+    }).notNull(),
+    creatorFee: numeric('creator_fee', { precision: 20, scale: 0 }).notNull(),
+    timestamp: timestamp('timestamp').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  table => [
+    // A transaction can emit several trade events, the log index keeps them apart
+    uniqueIndex('idx_trades_signature_log_index').on(table.signature, table.logIndex),
+    index('idx_trades_token_address').on(table.tokenAddress),
+    index('idx_trades_user').on(table.user),
+    index('idx_trades_timestamp').on(table.timestamp),
+  ]
+);
+
+// Append-only reserve history, one row per trade plus the refresher's periodic reads
+export const curveSnapshots = pgTable(
+  'curve_snapshots',
+  {
+    id: serial('id').primaryKey(),
+    tokenAddress: text('token_address').notNull(),
+    slot: bigint('slot', { mode: 'number' }).notNull(),
+    source: text('source').notNull(), // 'trade' | 'account'
+    signature: text('signature'), // trade only
+    logIndex: integer('log_index'), // trade only
+    virtualTokenReserves: numeric('virtual_token_reserves', { precision: 20, scale: 0 }).notNull(),
+    virtualSolReserves: numeric('virtual_sol_reserves', { precision: 20, scale: 0 }).notNull(),
+    realTokenReserves: numeric('real_token_reserves', { precision: 20, scale: 0 }).notNull(),
+    realSolReserves: numeric('real_sol_reserves', { precision: 20, scale: 0 }).notNull(),
+    priceSol: doublePrecision('price_sol').notNull(),
+    timestamp: timestamp('timestamp').notNull(), // event time, or when the account was read
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  table => [
+    // Replayed and backfilled trades must not add a second snapshot
+    uniqueIndex('idx_curve_snapshots_signature_log_index').on(table.signature, table.logIndex),
+    index('idx_curve_snapshots_token_slot').on(table.tokenAddress, table.slot),
+    index('idx_curve_snapshots_token_timestamp').on(table.tokenAddress, table.timestamp),
   ]
 );
 
+// Every creator reassignment seen on chain, oldest to newest per token
+export const creatorChanges = pgTable(
+  'creator_changes',
+  {
+    id: serial('id').primaryKey(),
+    signature: text('signature').notNull(),
+    logIndex: integer('log_index').notNull(),
+    slot: bigint('slot', { mode: 'number' }).notNull(),
+    tokenAddress: text('token_address').notNull(),
+    bondingCurveAddress: text('bonding_curve_address').notNull(),
+    previousCreator: text('previous_creator'),
+    newCreator: text('new_creator').notNull(),
+    source: text('source').notNull(), // 'set_creator' | 'set_metaplex_creator'
+    timestamp: timestamp('timestamp').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  table => [
+    uniqueIndex('idx_creator_changes_signature_log_index').on(table.signature, table.logIndex),
+    index('idx_creator_changes_token_address').on(table.tokenAddress),
+    index('idx_creator_changes_new_creator').on(table.newCreator),
+  ]
+);
+
+// Per-creator fee ledger, accruals come from trades and collections from CollectCreatorFeeEvent
+export const creatorFeeLedger = pgTable(
+  'creator_fee_ledger',
+  {
+    id: serial('id').primaryKey(),
+    signature: text('signature').notNull(),
+    logIndex: integer('log_index').notNull(),
+    slot: bigint('slot', { mode: 'number' }).notNull(),
+    creator: text('creator').notNull(),
+    tokenAddress: text('token_address'), // null for collections, they span every token
+    kind: text('kind').notNull(), // 'accrued' | 'collected'
+    amount: numeric('amount', { precision: 20, scale: 0 }).notNull(),
+    timestamp: timestamp('timestamp').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  table => [
+    uniqueIndex('idx_creator_fee_ledger_signature_log_index').on(table.signature, table.logIndex),
+    index('idx_creator_fee_ledger_creator_timestamp').on(table.creator, table.timestamp),
+  ]
+);
+
+// Launch statistics per creator, kept current as tokens, graduations and fee accruals are stored
+export const creators = pgTable(
+  'creators',
+  {
+    creator: text('creator').primaryKey(),
+    tokensLaunched: integer('tokens_launched').notNull().default(0),
+    tokensGraduated: integer('tokens_graduated').notNull().default(0),
+    // Chain creation times, null until one of the creator's launches has a known creation time
+    firstLaunchAt: timestamp('first_launch_at'),
+    lastLaunchAt: timestamp('last_launch_at'),
+    // Graduations with both a creation and a completion time, the average is total / count
+    timedGraduations: integer('timed_graduations').notNull().default(0),
+    graduationSecondsTotal: doublePrecision('graduation_seconds_total').notNull().default(0),
+    totalCreatorFees: numeric('total_creator_fees', { precision: 20, scale: 0 })
+      .notNull()
+      .default('0'),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  table => [
+    index('idx_creators_tokens_launched').on(table.tokensLaunched),
+    index('idx_creators_tokens_graduated').on(table.tokensGraduated),
+    index('idx_creators_total_creator_fees').on(table.totalCreatorFees),
+    index('idx_creators_last_launch_at').on(table.lastLaunchAt),
+  ]
+);
+
+// Protocol parameters over time, from SetParamsEvent and snapshots of the Global account
+export const protocolParams = pgTable(
+  'protocol_params',
+  {
+    id: serial('id').primaryKey(),
+    source: text('source').notNull(), // 'set_params' | 'global_account'
+    signature: text('signature'), // null for account snapshots
+    logIndex: integer('log_index'),
+    slot: bigint('slot', { mode: 'number' }).notNull(),
+    initialVirtualTokenReserves: numeric('initial_virtual_token_reserves', {
+      precision: 20,
+      scale: 0,
+    }).notNull(),
+    initialVirtualSolReserves: numeric('initial_virtual_sol_reserves', {
+      precision: 20,
+      scale: 0,
+    }).notNull(),
+    initialRealTokenReserves: numeric('initial_real_token_reserves', {
+      precision: 20,
+      scale: 0,
+    }).notNull(),
+    finalRealSolReserves: numeric('final_real_sol_reserves', { precision: 20, scale: 0 }), // event only
+    tokenTotalSupply: numeric('token_total_supply', { precision: 20, scale: 0 }).notNull(),
+    feeBasisPoints: numeric('fee_basis_points', { precision: 20, scale: 0 }).notNull(),
+    creatorFeeBasisPoints: numeric('creator_fee_basis_points', {
+      precision: 20,
+      scale: 0,
+    }).notNull(),
+    enableMigrate: boolean('enable_migrate').notNull(),
+    poolMigrationFee: numeric('pool_migration_fee', { precision: 20, scale: 0 }).notNull(),
+    withdrawAuthority: text('withdraw_authority').notNull(),
+    setCreatorAuthority: text('set_creator_authority').notNull(),
+    feeRecipients: jsonb('fee_recipients').$type<string[]>().notNull(),
+    authority: text('authority'), // account only
+    feeRecipient: text('fee_recipient'), // account only
+    timestamp: timestamp('timestamp').notNull(), // event time, or when the account was read
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  table => [
+    uniqueIndex('idx_protocol_params_signature_log_index').on(table.signature, table.logIndex),
+    index('idx_protocol_params_slot').on(table.slot),
+  ]
+);
+
+// Metadata documents keyed by content id (ipfs:<cid> or arweave:<id>), they never change
+export const metadataCache = pgTable('metadata_cache', {
+  contentKey: text('content_key').primaryKey(),
+  uri: text('uri').notNull(),
+  document: jsonb('document').$type<Record<string, unknown>>().notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Fetcher backfill work list, one row per bonding curve so an interrupted run can resume
+export const backfillItems = pgTable(
+  'backfill_items',
+  {
+    id: serial('id').primaryKey(),
+    bondingCurveAddress: text('bonding_curve_address').notNull().unique(),
+    status: text('status').notNull().default('pending'), // 'pending' | 'done' | 'failed' | 'skipped'
+    reason: text('reason'), // why the item failed or was skipped
+    attempts: integer('attempts').notNull().default(0),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  table => [index('idx_backfill_items_status').on(table.status, table.id)]
+);
+
+// Last transaction a listener processed, used to backfill the gap after a restart
+export const listenerCheckpoints = pgTable('listener_checkpoints', {
+  name: text('name').primaryKey(),
+  slot: bigint('slot', { mode: 'number' }).notNull(),
+  signature: text('signature').notNull(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Durable queue of metadata fetches, tokens are inserted first and enriched from here
+export const metadataJobs = pgTable(
+  'metadata_jobs',
+  {
+    id: serial('id').primaryKey(),
+    tokenAddress: text('token_address').notNull().unique(),
+    uri: text('uri').notNull(),
+    status: text('status').notNull().default('pending'), // 'pending' | 'processing' | 'done' | 'failed'
+    attempts: integer('attempts').notNull().default(0),
+    lastError: text('last_error'),
+    nextAttemptAt: timestamp('next_attempt_at').notNull().defaultNow(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  table => [index('idx_metadata_jobs_status_next_attempt').on(table.status, table.nextAttemptAt)]
+);
+
+// Trades are linked by mint instead of a foreign key so a trade is never
+// rejected because its token has not been indexed yet
+export const tokensRelations = relations(tokens, ({ many }) => ({
+  trades: many(trades),
+  creatorChanges: many(creatorChanges),
+  curveSnapshots: many(curveSnapshots),
+}));
+
+export const tradesRelations = relations(trades, ({ one }) => ({
+  token: one(tokens, {
+    fields: [trades.tokenAddress],
+    references: [tokens.tokenAddress],
+  }),
+}));
+
+export const curveSnapshotsRelations = relations(curveSnapshots, ({ one }) => ({
+  token: one(tokens, {
+    fields: [curveSnapshots.tokenAddress],
+    references: [tokens.tokenAddress],
+  }),
+}));
+
+export const creatorChangesRelations = relations(creatorChanges, ({ one }) => ({
+  token: one(tokens, {
+    fields: [creatorChanges.tokenAddress],
+    references: [tokens.tokenAddress],
+  }),
+}));
+
 export type Token = typeof tokens.$inferSelect;
 export type NewToken = typeof tokens.$inferInsert;
+export type Trade = typeof trades.$inferSelect;
+export type NewTrade = typeof trades.$inferInsert;
+export type CurveSnapshot = typeof curveSnapshots.$inferSelect;
+export type NewCurveSnapshot = typeof curveSnapshots.$inferInsert;
+export type CreatorFeeLedgerEntry = typeof creatorFeeLedger.$inferSelect;
+export type NewCreatorFeeLedgerEntry = typeof creatorFeeLedger.$inferInsert;
+export type Creator = typeof creators.$inferSelect;
+export type NewCreator = typeof creators.$inferInsert;
+export type MetadataJob = typeof metadataJobs.$inferSelect;
+export type BackfillItem = typeof backfillItems.$inferSelect;
+export type ListenerCheckpoint = typeof listenerCheckpoints.$inferSelect;
+export type CreatorChange = typeof creatorChanges.$inferSelect;
+export type NewCreatorChange = typeof creatorChanges.$inferInsert;
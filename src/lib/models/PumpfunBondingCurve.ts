@@ -0,0 +1,156 @@
+// src/lib/models/PumpfunBondingCurve.ts
+import { address } from 'gill';
+import * as borsh from '@coral-xyz/borsh';
+import { BondingCurveData } from '../types/types';
+import { PumpFunRpcScheduler } from './PumpfunRpcScheduler';
+import { PumpFunRpcProvider } from './PumpfunRpcProvider';
+
+export interface CurveParams {
+  initialRealTokenReserves: bigint; // tokens sellable on the curve before it completes
+  tokenDecimals: number;
+}
+
+// A decoded curve and the slot the account was read at
+export type BondingCurveRead = BondingCurveData & { slot: number };
+
+export interface CurveMetrics {
+  priceSol: number; // spot price of one whole token in SOL
+  marketCapSol: number; // spot price times total supply
+  completionPercent: number; // share of the sellable tokens already bought, 0 to 100
+}
+
+// Bonding curve schema
+export const bondingCurveSchema = borsh.struct([
+  borsh.array(borsh.u8(), 8, 'discriminator'),
+  borsh.u64('virtualTokenReserves'),
+  borsh.u64('virtualSolReserves'),
+  borsh.u64('realTokenReserves'),
+  borsh.u64('realSolReserves'),
+  borsh.u64('tokenTotalSupply'),
+  borsh.bool('complete'),
+  borsh.publicKey('creator'),
+]);
+
+// pump.fun launch values, 793.1M of the 1B supply is sold on the curve
+export const DEFAULT_CURVE_PARAMS: CurveParams = {
+  initialRealTokenReserves: BigInt('793100000000000'),
+  tokenDecimals: 6,
+};
+
+const LAMPORTS_PER_SOL = 1e9;
+const MULTIPLE_ACCOUNTS_LIMIT = 100; // Max accounts per getMultipleAccounts call
+
+/**
+ * Decodes raw bonding curve account data, u64s and the creator come back as strings
+ * @param {Buffer} data - the account's 81 data bytes
+ */
+export const decodeBondingCurve = (data: Buffer): BondingCurveData => {
+  const decoded = bondingCurveSchema.decode(data);
+
+  return {
+    discriminator: Uint8Array.from(decoded.discriminator),
+    virtualTokenReserves: decoded.virtualTokenReserves.toString(),
+    virtualSolReserves: decoded.virtualSolReserves.toString(),
+    realTokenReserves: decoded.realTokenReserves.toString(),
+    realSolReserves: decoded.realSolReserves.toString(),
+    tokenTotalSupply: decoded.tokenTotalSupply.toString(),
+    complete: decoded.complete,
+    creator: decoded.creator.toBase58(),
+  };
+};
+
+/**
+ * Spot price of one whole token in SOL from the virtual reserves
+ * @param {BondingCurveData} curve - decoded bonding curve or trade event reserves
+ * @param {CurveParams} params - protocol values the curve was launched with
+ */
+export const computePriceSol = (
+  curve: Pick<BondingCurveData, 'virtualTokenReserves' | 'virtualSolReserves'>,
+  params: CurveParams = DEFAULT_CURVE_PARAMS
+): number => {
+  const virtualTokens = Number(curve.virtualTokenReserves) / Math.pow(10, params.tokenDecimals);
+  const virtualSol = Number(curve.virtualSolReserves) / LAMPORTS_PER_SOL;
+
+  return virtualTokens > 0 ? virtualSol / virtualTokens : 0;
+};
+
+/**
+ * Spot price, market cap and completion of a curve from its reserves
+ * @param {BondingCurveData} curve - decoded bonding curve
+ * @param {CurveParams} params - protocol values the curve was launched with
+ */
+export const computeCurveMetrics = (
+  curve: Pick<
+    BondingCurveData,
+    'virtualTokenReserves' | 'virtualSolReserves' | 'realTokenReserves' | 'tokenTotalSupply'
+  > & { complete: boolean },
+  params: CurveParams = DEFAULT_CURVE_PARAMS
+): CurveMetrics => {
+  const tokenUnits = Math.pow(10, params.tokenDecimals);
+  const priceSol = computePriceSol(curve, params);
+  const marketCapSol = priceSol * (Number(curve.tokenTotalSupply) / tokenUnits);
+
+  // BigInt keeps the u64 subtraction exact, only the ratio goes through floats
+  const initial = params.initialRealTokenReserves;
+  const remaining = BigInt(curve.realTokenReserves);
+  const sold = initial > remaining ? initial - remaining : BigInt(0);
+  const completionPercent = curve.complete
+    ? 100
+    : initial > BigInt(0)
+      ? Math.min((Number(sold) / Number(initial)) * 100, 100)
+      : 0;
+
+  return { priceSol, marketCapSol, completionPercent };
+};
+
+/**
+ * Reads many bonding curves with getMultipleAccounts, 100 accounts per request
+ * @param {PumpFunRpcProvider} provider - RPC endpoints to read from
+ * @param {PumpFunRpcScheduler} scheduler - rate limits and retries the requests
+ * @param {string[]} bondingCurveAddresses - target bonding curves
+ * @returns decoded curves with their read slot by address, null where the account doesn't exist
+ * and no entry where it couldn't be read
+ */
+export const getMultipleBondingCurves = async (
+  provider: PumpFunRpcProvider,
+  scheduler: PumpFunRpcScheduler,
+  bondingCurveAddresses: string[]
+): Promise<Map<string, BondingCurveRead | null>> => {
+  const curves = new Map<string, BondingCurveRead | null>();
+
+  const chunks: string[][] = [];
+  for (let i = 0; i < bondingCurveAddresses.length; i += MULTIPLE_ACCOUNTS_LIMIT) {
+    chunks.push(bondingCurveAddresses.slice(i, i + MULTIPLE_ACCOUNTS_LIMIT));
+  }
+
+  await Promise.all(
+    chunks.map(async chunk => {
+      try {
+        const accounts = await scheduler.schedule('getMultipleAccounts', () =>
+          provider.request('rpc', ({ client }) =>
+            client.rpc
+              .getMultipleAccounts(
+                chunk.map(bondingCurveAddress => address(bondingCurveAddress)),
+                { encoding: 'base64' }
+              )
+              .send()
+          )
+        );
+
+        const slot = Number(accounts.context.slot);
+        chunk.forEach((bondingCurveAddress, index) => {
+          const account = accounts.value[index];
+          curves.set(
+            bondingCurveAddress,
+            account ? { ...decodeBondingCurve(Buffer.from(account.data[0], 'base64')), slot } : null
+          );
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn('There was an error getting multiple bonding curves', errorMessage);
+      }
+    })
+  );
+
+  return curves;
+};
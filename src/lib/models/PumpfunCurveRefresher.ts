@@ -0,0 +1,188 @@
+// src/lib/models/PumpfunCurveRefresher.ts
+import { computeCurveMetrics, getMultipleBondingCurves } from './PumpfunBondingCurve';
+import { PumpFunRpcScheduler } from './PumpfunRpcScheduler';
+import { PumpFunRpcProvider } from './PumpfunRpcProvider';
+import { PumpFunProtocolParams } from './PumpfunProtocolParams';
+import {
+  CurveSnapshotDocument,
+  CurveStateDocument,
+  getTokensDueForCurveRefreshFromDB,
+  insertCurveSnapshotsToDB,
+  touchTokenCurvesInDB,
+  updateTokenCurveStatesInDB,
+} from '../db/queries';
+
+export interface CurveRefresherOptions {
+  interval?: number; // ms between refresh runs
+  batchSize?: number; // tokens read per batch, 100 per getMultipleAccounts request
+  maxPerRun?: number; // cap on tokens read per run so one run can't hog the RPC
+  staleAfter?: number; // ms after which an untraded curve is read again anyway
+  scheduler?: PumpFunRpcScheduler; // shared scheduler, one is created when unset
+  protocolParams?: PumpFunProtocolParams; // shared params history, one is created when unset
+}
+
+export interface CurveRefreshResult {
+  refreshed: number;
+  missing: number; // curves whose account no longer exists
+}
+
+const DEFAULT_OPTIONS: Required<Omit<CurveRefresherOptions, 'scheduler' | 'protocolParams'>> = {
+  interval: 60 * 1000,
+  batchSize: 500,
+  maxPerRun: 5000,
+  staleAfter: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Re-reads the bonding curves of active tokens on a schedule and stores their reserves,
+ * spot price, market cap and completion percentage on the token row
+ */
+export class PumpFunCurveRefresher {
+  private provider: PumpFunRpcProvider;
+  private options: Required<Omit<CurveRefresherOptions, 'scheduler' | 'protocolParams'>>;
+  private scheduler: PumpFunRpcScheduler;
+  private protocolParams: PumpFunProtocolParams;
+  private running: boolean = false;
+  private loop: Promise<void> | null = null;
+  private wakeUp: (() => void) | null = null;
+
+  /**
+   * Constructor
+   * @param {PumpFunRpcProvider} provider - RPC endpoints to read the curves from
+   * @param {CurveRefresherOptions} options - refresh settings, unset values use the defaults
+   */
+  constructor(provider: PumpFunRpcProvider, options: CurveRefresherOptions = {}) {
+    this.provider = provider;
+    this.options = {
+      interval: options.interval ?? DEFAULT_OPTIONS.interval,
+      batchSize: options.batchSize ?? DEFAULT_OPTIONS.batchSize,
+      maxPerRun: options.maxPerRun ?? DEFAULT_OPTIONS.maxPerRun,
+      staleAfter: options.staleAfter ?? DEFAULT_OPTIONS.staleAfter,
+    };
+    this.scheduler = options.scheduler ?? new PumpFunRpcScheduler();
+    this.protocolParams = options.protocolParams ?? new PumpFunProtocolParams();
+  }
+
+  /**
+   * Starts refreshing in the background
+   */
+  start() {
+    if (this.running) return;
+
+    console.log(`📈 Curve refresher started (every ${this.options.interval / 1000}s)`);
+    this.running = true;
+    this.loop = this.run();
+  }
+
+  /**
+   * Stops refreshing and waits for the run in progress to finish
+   */
+  async stop() {
+    this.running = false;
+    this.wakeUp?.();
+    await this.loop;
+    this.loop = null;
+    console.log('🛑 Curve refresher stopped');
+  }
+
+  private async run() {
+    while (this.running) {
+      // One bad run must not end the loop, the next one starts from what is still due
+      try {
+        const result = await this.refreshOnce();
+        if (result.refreshed > 0 || result.missing > 0) {
+          console.log(
+            `📈 Refreshed ${result.refreshed} bonding curves (${result.missing} missing)`
+          );
+        }
+      } catch (error) {
+        console.error('❌ Error refreshing bonding curves:', error);
+      }
+
+      // Sleep until the next run unless stop() wakes us up early
+      await new Promise<void>(resolve => {
+        this.wakeUp = resolve;
+        setTimeout(resolve, this.options.interval);
+      });
+      this.wakeUp = null;
+    }
+  }
+
+  /**
+   * Reads every curve that is due, up to maxPerRun
+   * @param {number} staleAfter - override how old an untraded curve's state may get
+   */
+  async refreshOnce(staleAfter: number = this.options.staleAfter): Promise<CurveRefreshResult> {
+    const result: CurveRefreshResult = { refreshed: 0, missing: 0 };
+    const staleBefore = new Date(Date.now() - staleAfter);
+
+    while (result.refreshed + result.missing < this.options.maxPerRun) {
+      const due = await getTokensDueForCurveRefreshFromDB(this.options.batchSize, staleBefore);
+      if (due.length === 0) break;
+
+      const curves = await getMultipleBondingCurves(
+        this.provider,
+        this.scheduler,
+        due.map(token => token.bondingCurveAddress)
+      );
+
+      const states: CurveStateDocument[] = [];
+      const snapshots: CurveSnapshotDocument[] = [];
+      const missing: string[] = [];
+      const readAt = new Date();
+
+      for (const { tokenAddress, bondingCurveAddress, creationSlot } of due) {
+        const curve = curves.get(bondingCurveAddress);
+
+        // Unreadable this time, it stays due for the next run
+        if (curve === undefined) continue;
+
+        if (curve === null) {
+          missing.push(tokenAddress);
+          continue;
+        }
+
+        const state: CurveStateDocument = {
+          tokenAddress,
+          complete: curve.complete,
+          virtualTokenReserves: curve.virtualTokenReserves,
+          virtualSolReserves: curve.virtualSolReserves,
+          realTokenReserves: curve.realTokenReserves,
+          realSolReserves: curve.realSolReserves,
+          tokenTotalSupply: curve.tokenTotalSupply,
+          ...computeCurveMetrics(curve, await this.protocolParams.getCurveParamsAt(creationSlot)),
+        };
+        states.push(state);
+
+        // Reads fill the price history between trades
+        snapshots.push({
+          tokenAddress,
+          slot: curve.slot,
+          source: 'account',
+          virtualTokenReserves: curve.virtualTokenReserves,
+          virtualSolReserves: curve.virtualSolReserves,
+          realTokenReserves: curve.realTokenReserves,
+          realSolReserves: curve.realSolReserves,
+          priceSol: state.priceSol,
+          timestamp: readAt,
+        });
+      }
+
+      // Nothing could be read, the RPC is struggling so leave it for the next run
+      if (states.length === 0 && missing.length === 0) break;
+
+      // Missing curves still count as read so they don't block the queue
+      const stored = await updateTokenCurveStatesInDB(states);
+      await touchTokenCurvesInDB(missing);
+      await insertCurveSnapshotsToDB(snapshots);
+      if (!stored) break;
+
+      result.refreshed += states.length;
+      result.missing += missing.length;
+
+      if (due.length < this.options.batchSize) break;
+    }
+
+    return result;
+  }
+}
@@ -1,11 +1,38 @@
 // src/lib/models/PumpfunEventListener.ts
 import fs from 'fs';
 import path from 'path';
+import { parseArgs } from 'util';
 import dotenv from 'dotenv';
-import { Connection, PublicKey } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ADDRESS } from 'gill/programs/token';
 import { BorshCoder, Idl } from '@coral-xyz/anchor';
-import { TokenMetadata } from '../types/types';
-import { insertTokenToDB } from '../db/queries';
+import { PumpFunListenerSupervisor } from './PumpfunListenerSupervisor';
+import { PumpFunMetadataQueue } from './PumpfunMetadataQueue';
+import { PumpFunCurveRefresher } from './PumpfunCurveRefresher';
+import { computeCurveMetrics, computePriceSol } from './PumpfunBondingCurve';
+import { PumpFunRpcProvider } from './PumpfunRpcProvider';
+import { PumpFunProtocolParams } from './PumpfunProtocolParams';
+import {
+  LogEventSource,
+  RecordingLogEventSource,
+  ReplayLogEventSource,
+  RpcLogEventSource,
+} from './PumpfunEventSource';
+import { ProgramLogs } from '../types/types';
+import {
+  CheckpointDocument,
+  enqueueMetadataJobToDB,
+  getListenerCheckpointFromDB,
+  insertCreatorFeeEntryToDB,
+  insertCurveSnapshotsToDB,
+  insertProtocolParamsToDB,
+  insertTokenToDB,
+  insertTradeToDB,
+  markTokenCompleteInDB,
+  recordCreatorChangeInDB,
+  saveListenerCheckpointToDB,
+  setTokenPoolInDB,
+} from '../db/queries';
 
 dotenv.config();
 
@@ -24,25 +51,154 @@ interface CreateEvent {
   token_total_supply: string;
 }
 
-// CreateEvent discriminator from your IDL
+interface TradeEvent {
+  mint: string;
+  sol_amount: string;
+  token_amount: string;
+  is_buy: boolean;
+  user: string;
+  timestamp: string;
+  virtual_sol_reserves: string;
+  virtual_token_reserves: string;
+  real_sol_reserves: string;
+  real_token_reserves: string;
+  fee_recipient: string;
+  fee_basis_points: string;
+  fee: string;
+  creator: string;
+  creator_fee_basis_points: string;
+  creator_fee: string;
+}
+
+interface CompleteEvent {
+  user: string;
+  mint: string;
+  bonding_curve: string;
+  timestamp: string;
+}
+
+interface CompletePumpAmmMigrationEvent {
+  user: string;
+  mint: string;
+  mint_amount: string;
+  sol_amount: string;
+  pool_migration_fee: string;
+  bonding_curve: string;
+  timestamp: string;
+  pool: string;
+}
+
+interface SetCreatorEvent {
+  timestamp: string;
+  mint: string;
+  bonding_curve: string;
+  creator: string;
+}
+
+interface SetMetaplexCreatorEvent {
+  timestamp: string;
+  mint: string;
+  bonding_curve: string;
+  metadata: string;
+  creator: string;
+}
+
+interface CollectCreatorFeeEvent {
+  timestamp: string;
+  creator: string;
+  creator_fee: string;
+}
+
+interface SetParamsEvent {
+  initial_virtual_token_reserves: string;
+  initial_virtual_sol_reserves: string;
+  initial_real_token_reserves: string;
+  final_real_sol_reserves: string;
+  token_total_supply: string;
+  fee_basis_points: string;
+  withdraw_authority: string;
+  enable_migrate: boolean;
+  pool_migration_fee: string;
+  creator_fee_basis_points: string;
+  fee_recipients: string[];
+  timestamp: string;
+  set_creator_authority: string;
+}
+
+// Where an event log came from on chain
+interface LogContext {
+  signature: string;
+  slot: number;
+  logIndex: number;
+}
+
+// A processed transaction the checkpoint may move to once its writes are done
+interface PendingCheckpoint {
+  checkpoint: CheckpointDocument;
+  settled: boolean;
+}
+
+const PUMPFUN_PROGRAM_ID = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
+
+// Checkpoint row for this listener and how often it is flushed to the DB
+const CHECKPOINT_NAME = 'pumpfun-event-listener';
+const CHECKPOINT_FLUSH_INTERVAL = 5000;
+
+// Event discriminators from your IDL
 const CREATE_EVENT_DISCRIMINATOR = Buffer.from([27, 114, 169, 77, 222, 235, 99, 118]);
+const TRADE_EVENT_DISCRIMINATOR = Buffer.from([189, 219, 127, 211, 78, 230, 97, 238]);
+const COMPLETE_EVENT_DISCRIMINATOR = Buffer.from([95, 114, 97, 156, 212, 46, 152, 8]);
+const COMPLETE_PUMP_AMM_MIGRATION_EVENT_DISCRIMINATOR = Buffer.from([
+  189, 233, 93, 185, 92, 148, 234, 148,
+]);
+
+const SET_CREATOR_EVENT_DISCRIMINATOR = Buffer.from([237, 52, 123, 37, 245, 251, 72, 210]);
+const SET_METAPLEX_CREATOR_EVENT_DISCRIMINATOR = Buffer.from([142, 203, 6, 32, 127, 105, 191, 162]);
+const COLLECT_CREATOR_FEE_EVENT_DISCRIMINATOR = Buffer.from([122, 2, 127, 1, 14, 191, 12, 175]);
+const SET_PARAMS_EVENT_DISCRIMINATOR = Buffer.from([223, 195, 159, 246, 62, 48, 143, 131]);
+
+// Only these events are decoded, everything else is skipped before hitting the coder
+const HANDLED_EVENT_DISCRIMINATORS = [
+  CREATE_EVENT_DISCRIMINATOR,
+  TRADE_EVENT_DISCRIMINATOR,
+  COMPLETE_EVENT_DISCRIMINATOR,
+  COMPLETE_PUMP_AMM_MIGRATION_EVENT_DISCRIMINATOR,
+  SET_CREATOR_EVENT_DISCRIMINATOR,
+  SET_METAPLEX_CREATOR_EVENT_DISCRIMINATOR,
+  COLLECT_CREATOR_FEE_EVENT_DISCRIMINATOR,
+  SET_PARAMS_EVENT_DISCRIMINATOR,
+];
 
 export class PumpFunEventListener {
-  private connection: Connection;
+  private eventSource: LogEventSource;
   private coder: BorshCoder;
-  private logSubscriptionId: number | null = null;
+  private protocolParams: PumpFunProtocolParams;
   private newTokens: string[] = [];
+  private inFlight: Set<Promise<boolean>> = new Set();
+  private latestCheckpoint: CheckpointDocument | null = null;
+  private pendingCheckpoints: PendingCheckpoint[] = [];
+  private checkpointHeld: boolean = false;
+  private savedCheckpoint: CheckpointDocument | null = null;
+  private checkpointInterval: NodeJS.Timeout | null = null;
+  private backfilling: boolean = false;
+
+  // Health counters read by the supervisor
+  private lastLogAt: number = Date.now();
+  private lastLogReceivedAt: number = 0; // never reset, unlike lastLogAt
+  private eventsSeen: number = 0;
+  private decodeFailures: number = 0;
 
   /**
    * Constructor
    */
-  constructor(idl: Idl) {
-    // Create the connection
-    this.connection = new Connection(`${process.env.HELIUS_RPC_URL}`, {
-      commitment: 'confirmed',
-    });
+  constructor(idl: Idl, eventSource?: LogEventSource, protocolParams?: PumpFunProtocolParams) {
+    // Where the logs come from, the live websocket unless told otherwise
+    this.eventSource =
+      eventSource ?? new RpcLogEventSource(PumpFunRpcProvider.fromEnv(), PUMPFUN_PROGRAM_ID);
     // Decode the pumpfun idl
     this.coder = new BorshCoder(idl);
+    // Params history for the curve math, shared with the curve refresher when given
+    this.protocolParams = protocolParams ?? new PumpFunProtocolParams();
 
     // list for new tokens if its needed
     this.newTokens = [];
@@ -107,57 +263,221 @@ export class PumpFunEventListener {
 
   /**
    * Starts the listener
+   * Live sources are subscribed before backfilling so nothing lands in between,
+   * duplicates from the overlap are ignored by the unique indexes
    */
   async startListening() {
     try {
-      const programId = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
-      console.log('🎧 Starting log-based listener for:', programId.toString());
-
-      this.logSubscriptionId = this.connection.onLogs(
-        programId,
-        logs => {
-          // Look for event logs
-          for (const log of logs.logs) {
-            if (log.includes('Program data:')) {
-              this.parseEventFromLog(log);
-            }
-          }
-        },
-        'confirmed'
-      );
+      console.log('🎧 Starting log-based listener for:', PUMPFUN_PROGRAM_ID.toString());
+
+      // Read the checkpoint before live events start moving it, replays never touch it
+      const checkpoint = this.eventSource.live
+        ? await getListenerCheckpointFromDB(CHECKPOINT_NAME)
+        : null;
+      this.savedCheckpoint = checkpoint;
+      this.backfilling = checkpoint !== null;
+      // The backfill below covers whatever the last session left unwritten
+      this.pendingCheckpoints = [];
+      this.checkpointHeld = false;
+
+      // A new subscription gets a full stall window before it is judged
+      this.lastLogAt = Date.now();
+
+      await this.eventSource.start(logs => {
+        this.lastLogAt = Date.now();
+        this.lastLogReceivedAt = this.lastLogAt;
+        this.handleTransactionLogs(logs);
+      });
+
+      console.log('✅ Log listener started');
+
+      if (this.eventSource.live) {
+        this.checkpointInterval = setInterval(() => {
+          this.flushCheckpoint().catch(console.error);
+        }, CHECKPOINT_FLUSH_INTERVAL);
+      }
 
-      console.log('✅ Log listener started with ID:', this.logSubscriptionId);
+      if (checkpoint && this.eventSource.backfill) {
+        await this.eventSource.backfill(checkpoint, logs => this.handleTransactionLogs(logs));
+      }
     } catch (error) {
+      // A failed backfill keeps the old checkpoint so the next start retries the gap
       console.error('❌ Failed to start log listener:', error);
+      if (this.backfilling) {
+        // Live transactions settled meanwhile are newer than the gap, don't save past it
+        this.latestCheckpoint = this.savedCheckpoint;
+        this.holdCheckpoint('the backfill failed');
+      }
+
+      // A replay has nothing to recover with, let the caller fail
+      if (!this.eventSource.live) throw error;
+    } finally {
+      this.backfilling = false;
+    }
+  }
+
+  /**
+   * Run every event log of a transaction through the parser and advance the checkpoint
+   */
+  private handleTransactionLogs({ signature, slot, err, logs }: ProgramLogs) {
+    const writes: Promise<boolean>[] = [];
+
+    // Failed transactions still emit logs but none of their events happened
+    if (!err) {
+      // Look for event logs
+      logs.forEach((log, logIndex) => {
+        if (log.includes('Program data:')) {
+          const write = this.parseEventFromLog(log, { signature, slot, logIndex });
+          if (write) writes.push(write);
+        }
+      });
+    }
+
+    if (!this.eventSource.live || this.checkpointHeld) return;
+
+    // The checkpoint only moves past this transaction once all of its writes succeeded
+    const pending: PendingCheckpoint = { checkpoint: { slot, signature }, settled: false };
+    this.pendingCheckpoints.push(pending);
+
+    Promise.all(writes).then(results => {
+      if (results.every(Boolean)) {
+        pending.settled = true;
+        this.advanceCheckpoint();
+      } else {
+        this.holdCheckpoint(`writes for transaction ${signature} failed`);
+      }
+    });
+  }
+
+  /**
+   * Moves the checkpoint to the newest settled transaction that no unsettled one precedes
+   * Transactions sharing a slot with an unsettled one wait for it, backfills restart by slot
+   */
+  private advanceCheckpoint() {
+    let unsettledSlot = Infinity;
+    for (const entry of this.pendingCheckpoints) {
+      if (!entry.settled) unsettledSlot = Math.min(unsettledSlot, entry.checkpoint.slot);
+    }
+
+    const isDone = (entry: PendingCheckpoint) =>
+      entry.settled && entry.checkpoint.slot < unsettledSlot;
+
+    for (const entry of this.pendingCheckpoints) {
+      if (!isDone(entry)) continue;
+      if (!this.latestCheckpoint || entry.checkpoint.slot >= this.latestCheckpoint.slot) {
+        this.latestCheckpoint = entry.checkpoint;
+      }
+    }
+    this.pendingCheckpoints = this.pendingCheckpoints.filter(entry => !isDone(entry));
+  }
+
+  /**
+   * Stops the checkpoint where it is until the next start, which backfills from there
+   * @param {string} reason - shown in the logs
+   */
+  private holdCheckpoint(reason: string) {
+    if (this.checkpointHeld) return;
+
+    this.checkpointHeld = true;
+    this.pendingCheckpoints = [];
+    console.error(
+      `❌ Holding the checkpoint at slot ${this.latestCheckpoint?.slot ?? this.savedCheckpoint?.slot ?? 'none'} because ${reason}, the next start backfills from there`
+    );
+  }
+
+  /**
+   * Writes the latest processed transaction to the DB
+   * Held back while backfilling so a crash mid-backfill restarts from the old checkpoint
+   */
+  private async flushCheckpoint() {
+    if (!this.eventSource.live || this.backfilling || !this.latestCheckpoint) return;
+    if (this.latestCheckpoint.signature === this.savedCheckpoint?.signature) return;
+
+    const checkpoint = this.latestCheckpoint;
+    const saved = await saveListenerCheckpointToDB(CHECKPOINT_NAME, checkpoint);
+
+    if (saved) {
+      this.savedCheckpoint = checkpoint;
+    }
+  }
+
+  /**
+   * Keeps a handle on an event being processed so drain() can wait for it
+   */
+  private track(processing: Promise<boolean>): Promise<boolean> {
+    const tracked = processing
+      .catch(error => {
+        console.error('❌ Error processing event:', error);
+        return false;
+      })
+      .finally(() => this.inFlight.delete(tracked));
+    this.inFlight.add(tracked);
+    return tracked;
+  }
+
+  /**
+   * Waits until every event handed to the DB so far has been written
+   */
+  async drain() {
+    while (this.inFlight.size > 0) {
+      await Promise.all(this.inFlight);
     }
   }
 
   /**
    * Parse event from log
+   * @returns the event's DB write, null when the log isn't an event we store
    */
-  private parseEventFromLog(logLine: string) {
+  private parseEventFromLog(logLine: string, logContext: LogContext): Promise<boolean> | null {
     try {
       // Extract base64 data from log line
       const dataMatch = logLine.match(/Program data: (.+)/);
-      if (!dataMatch) return;
+      if (!dataMatch) return null;
 
       const base64Data = dataMatch[1];
 
-      // First check if this is a CreateEvent by converting to Buffer and checking discriminator
+      // First check if this is an event we handle by converting to Buffer and checking discriminator
       const eventData = Buffer.from(base64Data, 'base64');
 
       if (eventData.length >= 8) {
         const discriminator = eventData.subarray(0, 8);
 
-        if (discriminator.equals(CREATE_EVENT_DISCRIMINATOR)) {
+        if (HANDLED_EVENT_DISCRIMINATORS.some(handled => discriminator.equals(handled))) {
           try {
             // Use the original base64 string for decoding
             const decodedEvent = this.coder.events.decode(base64Data);
-
-            if (decodedEvent && decodedEvent.name === 'CreateEvent') {
-              this.processCreateEvent(decodedEvent.data);
+            this.eventsSeen++;
+
+            switch (decodedEvent?.name) {
+              case 'CreateEvent':
+                return this.track(this.processCreateEvent(decodedEvent.data, logContext));
+              case 'TradeEvent':
+                return this.track(this.processTradeEvent(decodedEvent.data, logContext));
+              case 'CompleteEvent':
+                return this.track(this.processCompleteEvent(decodedEvent.data));
+              case 'CompletePumpAmmMigrationEvent':
+                return this.track(this.processMigrationEvent(decodedEvent.data));
+              case 'SetCreatorEvent':
+                return this.track(
+                  this.processCreatorChangeEvent(decodedEvent.data, 'set_creator', logContext)
+                );
+              case 'SetMetaplexCreatorEvent':
+                return this.track(
+                  this.processCreatorChangeEvent(
+                    decodedEvent.data,
+                    'set_metaplex_creator',
+                    logContext
+                  )
+                );
+              case 'CollectCreatorFeeEvent':
+                return this.track(
+                  this.processCollectCreatorFeeEvent(decodedEvent.data, logContext)
+                );
+              case 'SetParamsEvent':
+                return this.track(this.processSetParamsEvent(decodedEvent.data, logContext));
             }
           } catch (decodeError) {
+            this.decodeFailures++;
             console.log('❌ Failed to decode event:', decodeError);
           }
         }
@@ -165,6 +485,8 @@ export class PumpFunEventListener {
     } catch (error) {
       console.error('❌ Error parsing event log:', error);
     }
+
+    return null;
   }
 
   /**
@@ -173,19 +495,32 @@ export class PumpFunEventListener {
   async stopListening() {
     console.log('🛑 Stopping event listener...');
 
-    // Stop log subscription
-    if (this.logSubscriptionId !== null) {
-      await this.connection.removeOnLogsListener(this.logSubscriptionId);
-      this.logSubscriptionId = null;
-      console.log('🛑 Log listener stopped');
+    // Persist where we got to so the next start only backfills the real gap
+    if (this.checkpointInterval) {
+      clearInterval(this.checkpointInterval);
+      this.checkpointInterval = null;
     }
+    await this.flushCheckpoint();
+
+    // Stop log subscription
+    await this.eventSource.stop();
+    console.log('🛑 Log listener stopped');
   }
 
   /**
-   * Process CreateEvent - writes immediately to DB
+   * Process CreateEvent - writes immediately to DB and queues the metadata fetch
    */
-  private async processCreateEvent(event: CreateEvent) {
-    const { name, symbol, uri, mint, bonding_curve, creator } = event;
+  private async processCreateEvent(event: CreateEvent, logContext: LogContext): Promise<boolean> {
+    const { name, symbol, uri, mint, bonding_curve, creator, timestamp } = event;
+
+    // The curve starts with the reserves in the event and no SOL
+    const curveState = {
+      virtualTokenReserves: this.safeStringify(event.virtual_token_reserves),
+      virtualSolReserves: this.safeStringify(event.virtual_sol_reserves),
+      realTokenReserves: this.safeStringify(event.real_token_reserves),
+      realSolReserves: '0',
+      tokenTotalSupply: this.safeStringify(event.token_total_supply),
+    };
 
     // Convert all Solana/Anchor types to safe strings
     const safeTokenData = {
@@ -197,13 +532,7 @@ export class PumpFunEventListener {
       creator: this.safeStringify(creator),
     };
 
-    // Get metadata (only if URI is valid)
-    let uriMeta = null;
-    if (safeTokenData.uri && safeTokenData.uri.trim() !== '') {
-      uriMeta = await this.getTokenMetadataFromUri(safeTokenData.uri);
-    }
-
-    // Create token document with safe string values
+    // Create token document with safe string values, description and image come from the queue
     const tokenDocument = {
       bondingCurveAddress: safeTokenData.bonding_curve,
       complete: false,
@@ -212,8 +541,21 @@ export class PumpFunEventListener {
       name: safeTokenData.name,
       symbol: safeTokenData.symbol,
       uri: safeTokenData.uri,
-      description: uriMeta?.description || '',
-      image: uriMeta?.image || '',
+      description: '',
+      image: '',
+      // The create instruction always mints with the classic token program
+      tokenProgram: TOKEN_PROGRAM_ADDRESS,
+      tokenExtensions: [],
+      creationSignature: logContext.signature,
+      creationSlot: logContext.slot,
+      // Event timestamps are unix seconds
+      creationTime: new Date(Number(this.safeStringify(timestamp)) * 1000).toISOString(),
+      ...curveState,
+      ...computeCurveMetrics(
+        { ...curveState, complete: false },
+        await this.protocolParams.getCurveParamsAt(logContext.slot)
+      ),
+      curveUpdatedAt: new Date().toISOString(),
     };
 
     try {
@@ -222,110 +564,396 @@ export class PumpFunEventListener {
       if (postgreSuccess) {
         // 2. Track new token
         this.newTokens.push(safeTokenData.mint);
-      } else {
-        console.error('❌ Failed to write token to DB');
+
+        // 3. Enrich it later (only if URI is valid)
+        if (safeTokenData.uri.trim() !== '') {
+          return await enqueueMetadataJobToDB(safeTokenData.mint, safeTokenData.uri);
+        }
+        return true;
       }
+
+      console.error('❌ Failed to write token to DB');
+      return false;
     } catch (error) {
       console.error('❌ Error processing new token:', error);
       console.error('Token data that caused error:', tokenDocument);
+      return false;
     }
   }
 
   /**
-   * Get new tokens count
+   * Process TradeEvent - writes the trade and post-trade reserves to DB
    */
-  getNewTokensCount(): number {
-    return this.newTokens.length;
+  private async processTradeEvent(event: TradeEvent, logContext: LogContext): Promise<boolean> {
+    const tradeDocument = {
+      signature: logContext.signature,
+      logIndex: logContext.logIndex,
+      slot: logContext.slot,
+      tokenAddress: this.safeStringify(event.mint),
+      user: this.safeStringify(event.user),
+      isBuy: Boolean(event.is_buy),
+      solAmount: this.safeStringify(event.sol_amount),
+      tokenAmount: this.safeStringify(event.token_amount),
+      virtualSolReserves: this.safeStringify(event.virtual_sol_reserves),
+      virtualTokenReserves: this.safeStringify(event.virtual_token_reserves),
+      realSolReserves: this.safeStringify(event.real_sol_reserves),
+      realTokenReserves: this.safeStringify(event.real_token_reserves),
+      feeRecipient: this.safeStringify(event.fee_recipient),
+      feeBasisPoints: this.safeStringify(event.fee_basis_points),
+      fee: this.safeStringify(event.fee),
+      creator: this.safeStringify(event.creator),
+      creatorFeeBasisPoints: this.safeStringify(event.creator_fee_basis_points),
+      creatorFee: this.safeStringify(event.creator_fee),
+      // Event timestamps are unix seconds
+      timestamp: new Date(Number(this.safeStringify(event.timestamp)) * 1000),
+    };
+
+    try {
+      const postgreSuccess = await insertTradeToDB(tradeDocument);
+
+      if (!postgreSuccess) {
+        console.error('❌ Failed to write trade to DB');
+      }
+
+      // The post-trade reserves are a point in the token's price history
+      const snapshotSuccess = await insertCurveSnapshotsToDB([
+        {
+          tokenAddress: tradeDocument.tokenAddress,
+          slot: tradeDocument.slot,
+          source: 'trade',
+          signature: tradeDocument.signature,
+          logIndex: tradeDocument.logIndex,
+          virtualTokenReserves: tradeDocument.virtualTokenReserves,
+          virtualSolReserves: tradeDocument.virtualSolReserves,
+          realTokenReserves: tradeDocument.realTokenReserves,
+          realSolReserves: tradeDocument.realSolReserves,
+          priceSol: computePriceSol(tradeDocument),
+          timestamp: tradeDocument.timestamp,
+        },
+      ]);
+
+      // Every trade accrues a creator fee, record it in the creator's ledger
+      let feeSuccess = true;
+      if (tradeDocument.creatorFee !== '0' && tradeDocument.creatorFee !== '') {
+        feeSuccess = await insertCreatorFeeEntryToDB({
+          signature: tradeDocument.signature,
+          logIndex: tradeDocument.logIndex,
+          slot: tradeDocument.slot,
+          creator: tradeDocument.creator,
+          tokenAddress: tradeDocument.tokenAddress,
+          kind: 'accrued',
+          amount: tradeDocument.creatorFee,
+          timestamp: tradeDocument.timestamp,
+        });
+      }
+
+      return postgreSuccess && snapshotSuccess && feeSuccess;
+    } catch (error) {
+      console.error('❌ Error processing trade:', error);
+      console.error('Trade data that caused error:', tradeDocument);
+      return false;
+    }
   }
 
   /**
-   * Fetch token metadata directly from URI (much faster than waiting for Helius indexing)
-   * @param {string} uri - The metadata URI from the CreateEvent
-   * @param {number} maxRetries - maximum number of retry attempts
-   * @returns {Promise<TokenMetadata | null>}
+   * Process CompleteEvent - flags the token as graduated
    */
-  async getTokenMetadataFromUri(
-    uri: string,
-    maxRetries: number = 5
-  ): Promise<TokenMetadata | null> {
-    if (!uri || uri.trim() === '') {
-      console.warn('⚠️ Empty URI provided');
-      return null;
+  private async processCompleteEvent(event: CompleteEvent): Promise<boolean> {
+    const mint = this.safeStringify(event.mint);
+    const completedAt = new Date(Number(this.safeStringify(event.timestamp)) * 1000);
+
+    try {
+      const updated = await markTokenCompleteInDB(mint, completedAt);
+
+      if (updated) {
+        console.log(`🎓 Token graduated: ${mint}`);
+      } else {
+        console.warn(`⚠️ Graduated token not found in DB: ${mint}`);
+      }
+      // A token we never indexed is not a failed write, the backfill picks it up
+      return true;
+    } catch (error) {
+      console.error('❌ Error processing complete event:', error);
+      return false;
     }
+  }
+
+  /**
+   * Process CompletePumpAmmMigrationEvent - stores the pool the token migrated to
+   */
+  private async processMigrationEvent(event: CompletePumpAmmMigrationEvent): Promise<boolean> {
+    const mint = this.safeStringify(event.mint);
+    const pool = this.safeStringify(event.pool);
+    const migratedAt = new Date(Number(this.safeStringify(event.timestamp)) * 1000);
 
-    // Validate URI format
     try {
-      new URL(uri);
-    } catch {
-      console.warn(`⚠️ Invalid URI format: ${uri}`);
-      return null;
+      const updated = await setTokenPoolInDB(mint, pool, migratedAt);
+
+      if (updated) {
+        console.log(`🏊 Token migrated: ${mint} -> ${pool}`);
+      } else {
+        console.warn(`⚠️ Migrated token not found in DB: ${mint}`);
+      }
+      return true;
+    } catch (error) {
+      console.error('❌ Error processing migration event:', error);
+      return false;
     }
+  }
 
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const response = await fetch(uri, {
-          method: 'GET',
-          headers: {
-            Accept: 'application/json',
-            'User-Agent': 'PumpFun-Token-Fetcher/1.0',
-          },
-          // Add timeout to prevent hanging
-          signal: AbortSignal.timeout(10000), // 10 second timeout
-        });
+  /**
+   * Process SetCreatorEvent / SetMetaplexCreatorEvent - updates the creator and keeps history
+   */
+  private async processCreatorChangeEvent(
+    event: SetCreatorEvent | SetMetaplexCreatorEvent,
+    source: 'set_creator' | 'set_metaplex_creator',
+    logContext: LogContext
+  ): Promise<boolean> {
+    const creatorChange = {
+      signature: logContext.signature,
+      logIndex: logContext.logIndex,
+      slot: logContext.slot,
+      tokenAddress: this.safeStringify(event.mint),
+      bondingCurveAddress: this.safeStringify(event.bonding_curve),
+      newCreator: this.safeStringify(event.creator),
+      source,
+      timestamp: new Date(Number(this.safeStringify(event.timestamp)) * 1000),
+    };
 
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
+    try {
+      const postgreSuccess = await recordCreatorChangeInDB(creatorChange);
 
-        const contentType = response.headers.get('content-type');
-        if (!contentType?.includes('application/json')) {
-          console.warn(`⚠️ Unexpected content type: ${contentType}`);
-          break;
-        }
+      if (!postgreSuccess) {
+        console.error('❌ Failed to write creator change to DB');
+      }
+      return postgreSuccess;
+    } catch (error) {
+      console.error('❌ Error processing creator change:', error);
+      console.error('Creator change data that caused error:', creatorChange);
+      return false;
+    }
+  }
 
-        const metadata = await response.json();
+  /**
+   * Process CollectCreatorFeeEvent - records the fees a creator withdrew
+   */
+  private async processCollectCreatorFeeEvent(
+    event: CollectCreatorFeeEvent,
+    logContext: LogContext
+  ): Promise<boolean> {
+    const feeEntry = {
+      signature: logContext.signature,
+      logIndex: logContext.logIndex,
+      slot: logContext.slot,
+      creator: this.safeStringify(event.creator),
+      kind: 'collected' as const,
+      amount: this.safeStringify(event.creator_fee),
+      timestamp: new Date(Number(this.safeStringify(event.timestamp)) * 1000),
+    };
 
-        // Extract the metadata fields we need
-        const tokenMetadata: TokenMetadata = {
-          mint: '', // This will be set by the calling function
-          name: metadata.name || 'Unknown Token',
-          symbol: metadata.symbol || 'UNKNOWN',
-          uri: uri,
-          description: metadata.description || '', // PumpFun often has empty descriptions
-          image: metadata.image,
-        };
+    try {
+      const postgreSuccess = await insertCreatorFeeEntryToDB(feeEntry);
 
-        return tokenMetadata;
-      } catch {
-        if (attempt < maxRetries - 1) {
-          const delay = Math.pow(2, attempt) * 1000; // Exponential backoff: 1s, 2s, 4s
-          // console.log(`⏱️ Waiting ${delay}ms before retry...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
+      if (!postgreSuccess) {
+        console.error('❌ Failed to write creator fee collection to DB');
       }
+      return postgreSuccess;
+    } catch (error) {
+      console.error('❌ Error processing creator fee collection:', error);
+      console.error('Creator fee data that caused error:', feeEntry);
+      return false;
     }
+  }
 
-    //console.error(`❌ Failed to fetch metadata from URI after ${maxRetries} attempts: ${uri}`);
-    return null;
+  /**
+   * Process SetParamsEvent - records the new protocol params in the history
+   */
+  private async processSetParamsEvent(
+    event: SetParamsEvent,
+    logContext: LogContext
+  ): Promise<boolean> {
+    const params = {
+      source: 'set_params' as const,
+      signature: logContext.signature,
+      logIndex: logContext.logIndex,
+      slot: logContext.slot,
+      initialVirtualTokenReserves: this.safeStringify(event.initial_virtual_token_reserves),
+      initialVirtualSolReserves: this.safeStringify(event.initial_virtual_sol_reserves),
+      initialRealTokenReserves: this.safeStringify(event.initial_real_token_reserves),
+      finalRealSolReserves: this.safeStringify(event.final_real_sol_reserves),
+      tokenTotalSupply: this.safeStringify(event.token_total_supply),
+      feeBasisPoints: this.safeStringify(event.fee_basis_points),
+      creatorFeeBasisPoints: this.safeStringify(event.creator_fee_basis_points),
+      enableMigrate: event.enable_migrate,
+      poolMigrationFee: this.safeStringify(event.pool_migration_fee),
+      withdrawAuthority: this.safeStringify(event.withdraw_authority),
+      setCreatorAuthority: this.safeStringify(event.set_creator_authority),
+      feeRecipients: event.fee_recipients.map(recipient => this.safeStringify(recipient)),
+      timestamp: new Date(Number(this.safeStringify(event.timestamp)) * 1000),
+    };
+
+    try {
+      const postgreSuccess = await insertProtocolParamsToDB(params);
+
+      if (postgreSuccess) {
+        this.protocolParams.add(params);
+        console.log(
+          `⚙️ Protocol params changed at slot ${params.slot}: fee ${params.feeBasisPoints}bps, creator fee ${params.creatorFeeBasisPoints}bps`
+        );
+      } else {
+        console.error('❌ Failed to write protocol params to DB');
+      }
+      return postgreSuccess;
+    } catch (error) {
+      console.error('❌ Error processing protocol params change:', error);
+      console.error('Protocol params data that caused error:', params);
+      return false;
+    }
+  }
+
+  /**
+   * Drops the current subscription and subscribes again, backfilling whatever was missed
+   */
+  async resubscribe() {
+    await this.stopListening();
+    await this.startListening();
+  }
+
+  /**
+   * Replaces the connection (and its websocket) entirely before resubscribing
+   */
+  async recreateConnection() {
+    await this.stopListening();
+    this.eventSource.reset?.();
+    await this.startListening();
+  }
+
+  /**
+   * Milliseconds since the websocket last delivered logs
+   */
+  getMillisSinceLastLog(): number {
+    return Date.now() - this.lastLogAt;
+  }
+
+  /**
+   * When the source last delivered live logs, 0 when it never did
+   * Backfilled transactions and new subscriptions don't move it
+   */
+  getLastLogReceivedAt(): number {
+    return this.lastLogReceivedAt;
+  }
+
+  /**
+   * Get the number of decoded events
+   */
+  getEventsSeen(): number {
+    return this.eventsSeen;
+  }
+
+  /**
+   * Get the number of event logs that failed to decode
+   */
+  getDecodeFailures(): number {
+    return this.decodeFailures;
+  }
+
+  /**
+   * Get new tokens count
+   */
+  getNewTokensCount(): number {
+    return this.newTokens.length;
   }
 }
 
 /**
  * Starts the event listener
+ * --record <file> appends every live transaction's logs to an NDJSON file
+ * --replay <file> feeds a recording through the pipeline instead of the websocket
+ * --speed <n> replay speed multiplier, 0 replays as fast as possible
  */
 export const startCreateEventListener = async () => {
   const PUMPFUN_IDL_JSON = path.join(__dirname, '../idls/pumpfun_idl.json');
   const PUMPFUN_IDL_DATA = fs.readFileSync(PUMPFUN_IDL_JSON, 'utf8');
   const PUMPFUN_IDL = JSON.parse(PUMPFUN_IDL_DATA);
 
-  const listener = new PumpFunEventListener(PUMPFUN_IDL);
+  const { values: args } = parseArgs({
+    options: {
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      speed: { type: 'string', default: '1' },
+    },
+  });
+
+  // Replaying a recording needs no network and no supervision, metadata jobs stay queued
+  if (args.replay) {
+    const speed = Number(args.speed);
+    if (!Number.isFinite(speed) || speed < 0) {
+      console.error(`❌ Invalid --speed: ${args.speed}, expected a number of at least 0`);
+      process.exit(1);
+    }
+
+    const replaySource = new ReplayLogEventSource(args.replay, speed);
+    const listener = new PumpFunEventListener(PUMPFUN_IDL, replaySource);
+
+    try {
+      await listener.startListening();
+      await replaySource.finished();
+      await listener.drain();
+      await listener.stopListening();
+    } catch (error) {
+      console.error('❌ Replay failed:', error);
+      process.exit(1);
+    }
+
+    console.log(`✅ Replay completed, ${listener.getNewTokensCount()} new tokens written`);
+    process.exit(0);
+  }
+
+  // One set of endpoints for the websocket and the curve reads, see RPC_ENDPOINTS
+  const provider = PumpFunRpcProvider.fromEnv();
+  // New tokens and refreshed curves are priced with the params in effect at their launch
+  const protocolParams = new PumpFunProtocolParams();
+
+  let eventSource: LogEventSource = new RpcLogEventSource(provider, PUMPFUN_PROGRAM_ID);
+  if (args.record) {
+    eventSource = new RecordingLogEventSource(eventSource, args.record);
+  }
+
+  const listener = new PumpFunEventListener(PUMPFUN_IDL, eventSource, protocolParams);
 
   await listener.startListening();
 
+  // Watch the websocket and revive it when it goes quiet
+  const supervisor = new PumpFunListenerSupervisor(listener, {
+    stallThreshold: Number(process.env.LISTENER_STALL_THRESHOLD_MS) || undefined,
+    checkInterval: Number(process.env.LISTENER_HEALTH_CHECK_INTERVAL_MS) || undefined,
+  });
+  supervisor.start();
+
+  // Fill in descriptions and images without holding up inserts
+  const metadataQueue = new PumpFunMetadataQueue({
+    concurrency: Number(process.env.METADATA_QUEUE_CONCURRENCY) || undefined,
+  });
+  metadataQueue.start();
+
+  // Keep reserves, price and market cap of active curves current, 'off' turns it off
+  const curveRefresher =
+    process.env.CURVE_REFRESH_INTERVAL_MS !== 'off'
+      ? new PumpFunCurveRefresher(provider, {
+          interval: Number(process.env.CURVE_REFRESH_INTERVAL_MS) || undefined,
+          protocolParams,
+        })
+      : null;
+  curveRefresher?.start();
+
   // Enhanced shutdown handling
   const shutdown = async () => {
     console.log('\n🛑 Received shutdown signal, stopping listener...');
+    supervisor.stop();
     await listener.stopListening();
+    await listener.drain();
+    await metadataQueue.stop();
+    await curveRefresher?.stop();
     console.log('✅ Shutdown completed successfully');
     process.exit(0);
   };
@@ -0,0 +1,338 @@
+// src/lib/models/PumpfunEventSource.ts
+import fs from 'fs';
+import readline from 'readline';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { address, Signature, signature as toSignature } from 'gill';
+import { ProgramLogs } from '../types/types';
+import { CheckpointDocument } from '../db/queries';
+import { PumpFunRpcProvider, RpcEndpoint } from './PumpfunRpcProvider';
+
+export type ProgramLogsHandler = (logs: ProgramLogs) => void;
+
+/**
+ * Where the listener gets program logs from
+ * Live sources are checkpointed and can backfill, replays are not
+ */
+export interface LogEventSource {
+  readonly live: boolean;
+  start(onLogs: ProgramLogsHandler): Promise<void>;
+  stop(): Promise<void>;
+  backfill?(checkpoint: CheckpointDocument, onLogs: ProgramLogsHandler): Promise<number>;
+  reset?(): void;
+}
+
+// Max signatures per getSignaturesForAddress page
+const BACKFILL_PAGE_SIZE = 1000;
+
+/**
+ * Streams program logs from an RPC websocket with Connection.onLogs
+ */
+export class RpcLogEventSource implements LogEventSource {
+  readonly live = true;
+  private provider: PumpFunRpcProvider;
+  private endpoint: RpcEndpoint;
+  private programId: PublicKey;
+  private connection: Connection;
+  private logSubscriptionId: number | null = null;
+
+  /**
+   * Constructor
+   * @param {PumpFunRpcProvider} provider - endpoints with the websocket capability, first healthy one is used
+   * @param {PublicKey} programId - program whose logs we subscribe to
+   */
+  constructor(provider: PumpFunRpcProvider, programId: PublicKey) {
+    this.provider = provider;
+    this.endpoint = provider.getEndpoint('websocket');
+    this.programId = programId;
+    this.connection = this.createConnection();
+  }
+
+  /**
+   * Creates a fresh RPC connection, each one owns its own websocket
+   */
+  private createConnection(): Connection {
+    console.log(`🔌 Using RPC endpoint ${this.endpoint.name} for logs`);
+    return new Connection(this.endpoint.url, {
+      commitment: 'confirmed',
+      wsEndpoint: this.endpoint.wsUrl,
+    });
+  }
+
+  /**
+   * Subscribes to the program's logs
+   */
+  async start(onLogs: ProgramLogsHandler) {
+    this.logSubscriptionId = this.connection.onLogs(
+      this.programId,
+      (logs, context) => {
+        onLogs({
+          signature: logs.signature,
+          slot: context.slot,
+          err: logs.err,
+          logs: logs.logs,
+          receivedAt: Date.now(),
+        });
+      },
+      'confirmed'
+    );
+
+    console.log('✅ Log subscription started with ID:', this.logSubscriptionId);
+  }
+
+  /**
+   * Removes the log subscription
+   */
+  async stop() {
+    if (this.logSubscriptionId !== null) {
+      await this.connection.removeOnLogsListener(this.logSubscriptionId);
+      this.logSubscriptionId = null;
+      console.log('🛑 Log subscription stopped');
+    }
+  }
+
+  /**
+   * Replaces the connection (and its websocket) entirely, call while stopped
+   * Moves to the next websocket endpoint when there is one
+   */
+  reset() {
+    this.provider.reportFailure(this.endpoint, 'websocket stalled');
+    this.endpoint = this.provider.getEndpoint('websocket', this.endpoint);
+    this.connection = this.createConnection();
+  }
+
+  /**
+   * Replays every program transaction since the checkpoint, oldest first
+   * @param {CheckpointDocument} checkpoint - last transaction processed before the restart
+   * @param {ProgramLogsHandler} onLogs - receives the logs of each missed transaction
+   * @returns the number of transactions replayed
+   */
+  async backfill(checkpoint: CheckpointDocument, onLogs: ProgramLogsHandler): Promise<number> {
+    console.log(
+      `⏪ Backfilling from slot ${checkpoint.slot} (signature ${checkpoint.signature})...`
+    );
+
+    // Walk back from the newest signature until we reach the checkpoint
+    const signatures: { signature: Signature; slot: number }[] = [];
+    let before: Signature | undefined;
+
+    // Backfill reads go through the provider like every other request, so they fail over
+    // and show up in the endpoint stats instead of pinning the websocket's endpoint
+    while (true) {
+      const page = await this.provider.request('rpc', ({ client }) =>
+        client.rpc
+          .getSignaturesForAddress(address(this.programId.toBase58()), {
+            before,
+            until: toSignature(checkpoint.signature),
+            limit: BACKFILL_PAGE_SIZE,
+            commitment: 'confirmed',
+          })
+          .send()
+      );
+
+      if (page.length === 0) break;
+
+      for (const info of page) {
+        if (!info.err && Number(info.slot) >= checkpoint.slot) {
+          signatures.push({ signature: info.signature, slot: Number(info.slot) });
+        }
+      }
+
+      // Guard against a pruned checkpoint signature, stop once we are older than it
+      const last = page[page.length - 1];
+      if (page.length < BACKFILL_PAGE_SIZE || Number(last.slot) < checkpoint.slot) break;
+
+      before = last.signature;
+    }
+
+    signatures.reverse();
+    console.log(`⏪ Found ${signatures.length} transactions to backfill`);
+
+    let processed = 0;
+    for (const { signature, slot } of signatures) {
+      // Throw rather than skip, the checkpoint must not move past a transaction we never replayed
+      const transaction = await this.provider.request('rpc', ({ client }) =>
+        client.rpc
+          .getTransaction(signature, {
+            commitment: 'confirmed',
+            encoding: 'json',
+            maxSupportedTransactionVersion: 0,
+          })
+          .send()
+      );
+
+      if (!transaction?.meta?.logMessages) {
+        throw new Error(`Could not read the logs of backfilled transaction ${signature}`);
+      }
+
+      onLogs({
+        signature,
+        slot,
+        err: transaction.meta.err,
+        logs: [...transaction.meta.logMessages],
+        receivedAt: Date.now(),
+      });
+      processed++;
+
+      if (processed % 100 === 0) {
+        console.log(`⏪ Backfill progress: ${processed}/${signatures.length}`);
+      }
+    }
+
+    console.log(`✅ Backfill completed, replayed ${processed} transactions`);
+    return processed;
+  }
+}
+
+/**
+ * Wraps another source and appends every transaction's raw logs to an NDJSON file
+ */
+export class RecordingLogEventSource implements LogEventSource {
+  readonly live: boolean;
+  private source: LogEventSource;
+  private filePath: string;
+  private stream: fs.WriteStream | null = null;
+
+  /**
+   * Constructor
+   * @param {LogEventSource} source - the source being recorded
+   * @param {string} filePath - NDJSON file, appended to if it exists
+   */
+  constructor(source: LogEventSource, filePath: string) {
+    this.source = source;
+    this.filePath = filePath;
+    this.live = source.live;
+  }
+
+  /**
+   * Writes one transaction as a single NDJSON line
+   */
+  private record(logs: ProgramLogs) {
+    this.stream?.write(`${JSON.stringify(logs)}\n`);
+  }
+
+  async start(onLogs: ProgramLogsHandler) {
+    this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+    console.log(`⏺️ Recording program logs to ${this.filePath}`);
+
+    await this.source.start(logs => {
+      this.record(logs);
+      onLogs(logs);
+    });
+  }
+
+  async stop() {
+    await this.source.stop();
+
+    if (this.stream) {
+      const stream = this.stream;
+      this.stream = null;
+      await new Promise<void>(resolve => stream.end(resolve));
+    }
+  }
+
+  async backfill(checkpoint: CheckpointDocument, onLogs: ProgramLogsHandler): Promise<number> {
+    if (!this.source.backfill) return 0;
+
+    return await this.source.backfill(checkpoint, logs => {
+      this.record(logs);
+      onLogs(logs);
+    });
+  }
+
+  reset() {
+    this.source.reset?.();
+  }
+}
+
+/**
+ * Replays an NDJSON recording, keeping the original spacing between transactions
+ * divided by the speed multiplier (0 replays as fast as possible)
+ */
+export class ReplayLogEventSource implements LogEventSource {
+  readonly live = false;
+  private filePath: string;
+  private speed: number;
+  private stopped: boolean = false;
+  private reader: readline.Interface | null = null;
+  private replay: Promise<number> | null = null;
+
+  /**
+   * Constructor
+   * @param {string} filePath - NDJSON file written by RecordingLogEventSource
+   * @param {number} speed - 1 is real time, 10 is ten times faster, 0 is no delay at all
+   */
+  constructor(filePath: string, speed: number = 1) {
+    this.filePath = filePath;
+    this.speed = speed;
+  }
+
+  /**
+   * Starts replaying in the background, use finished() to wait for the end of the file
+   */
+  async start(onLogs: ProgramLogsHandler) {
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`Recording not found: ${this.filePath}`);
+    }
+
+    this.stopped = false;
+    console.log(
+      `⏯️ Replaying ${this.filePath} at ${this.speed === 0 ? 'max' : `${this.speed}x`} speed`
+    );
+    this.replay = this.replayFile(onLogs);
+  }
+
+  async stop() {
+    this.stopped = true;
+    this.reader?.close();
+  }
+
+  /**
+   * Resolves with the number of replayed transactions once the file is done
+   */
+  async finished(): Promise<number> {
+    return this.replay ? await this.replay : 0;
+  }
+
+  /**
+   * Reads the file line by line so large recordings are never held in memory
+   */
+  private async replayFile(onLogs: ProgramLogsHandler): Promise<number> {
+    this.reader = readline.createInterface({
+      input: fs.createReadStream(this.filePath),
+      crlfDelay: Infinity,
+    });
+
+    const replayStartedAt = Date.now();
+    let firstReceivedAt: number | null = null;
+    let replayed = 0;
+
+    for await (const line of this.reader) {
+      if (this.stopped) break;
+      if (line.trim() === '') continue;
+
+      let logs: ProgramLogs;
+      try {
+        logs = JSON.parse(line);
+      } catch {
+        console.warn(`⚠️ Skipping malformed recording line ${replayed + 1}`);
+        continue;
+      }
+
+      // Wait until this transaction's offset from the first one, scaled by speed
+      if (this.speed > 0) {
+        firstReceivedAt ??= logs.receivedAt;
+        const due = (logs.receivedAt - firstReceivedAt) / this.speed;
+        const wait = due - (Date.now() - replayStartedAt);
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+        }
+      }
+
+      onLogs({ ...logs, receivedAt: Date.now() });
+      replayed++;
+    }
+
+    console.log(`✅ Replay finished, ${replayed} transactions replayed`);
+    return replayed;
+  }
+}
@@ -0,0 +1,153 @@
+// src/lib/models/PumpfunListenerSupervisor.ts
+import type { PumpFunEventListener } from './PumpfunEventListener';
+
+export interface SupervisorOptions {
+  stallThreshold?: number; // ms without logs before the websocket is considered stalled
+  checkInterval?: number; // ms between health checks
+  statsInterval?: number; // ms between stats log lines
+  maxResubscribeAttempts?: number; // resubscribes before the connection is recreated
+}
+
+export interface ListenerStats {
+  millisSinceLastLog: number;
+  eventsSeen: number;
+  decodeFailures: number;
+  reconnects: number;
+  resubscribes: number;
+  connectionRecreations: number;
+}
+
+// pump.fun emits events every second, a quiet minute means the socket is dead
+const DEFAULT_OPTIONS: Required<SupervisorOptions> = {
+  stallThreshold: 60000,
+  checkInterval: 5000,
+  statsInterval: 60000,
+  maxResubscribeAttempts: 2,
+};
+
+/**
+ * Supervises a PumpFunEventListener, resubscribing and then recreating the
+ * connection when no logs arrive within the stall threshold
+ */
+export class PumpFunListenerSupervisor {
+  private listener: PumpFunEventListener;
+  private options: Required<SupervisorOptions>;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private statsTimer: NodeJS.Timeout | null = null;
+  private recovering: boolean = false;
+  private consecutiveStalls: number = 0;
+  private lastRecoveryAt: number = 0;
+  private resubscribes: number = 0;
+  private connectionRecreations: number = 0;
+
+  /**
+   * Constructor
+   * @param {PumpFunEventListener} listener - a listener that is already listening
+   * @param {SupervisorOptions} options - thresholds, unset values use the defaults
+   */
+  constructor(listener: PumpFunEventListener, options: SupervisorOptions = {}) {
+    this.listener = listener;
+    this.options = {
+      stallThreshold: options.stallThreshold ?? DEFAULT_OPTIONS.stallThreshold,
+      checkInterval: options.checkInterval ?? DEFAULT_OPTIONS.checkInterval,
+      statsInterval: options.statsInterval ?? DEFAULT_OPTIONS.statsInterval,
+      maxResubscribeAttempts:
+        options.maxResubscribeAttempts ?? DEFAULT_OPTIONS.maxResubscribeAttempts,
+    };
+  }
+
+  /**
+   * Starts the health checks
+   */
+  start() {
+    if (this.checkTimer) return;
+
+    console.log(
+      `🩺 Supervising listener (stall threshold ${this.options.stallThreshold}ms, check every ${this.options.checkInterval}ms)`
+    );
+
+    this.checkTimer = setInterval(() => {
+      this.checkHealth().catch(error => console.error('❌ Listener health check failed:', error));
+    }, this.options.checkInterval);
+
+    this.statsTimer = setInterval(() => this.logStats(), this.options.statsInterval);
+  }
+
+  /**
+   * Stops the health checks, the listener itself is left alone
+   */
+  stop() {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+  }
+
+  /**
+   * Current health counters
+   */
+  getStats(): ListenerStats {
+    return {
+      millisSinceLastLog: this.listener.getMillisSinceLastLog(),
+      eventsSeen: this.listener.getEventsSeen(),
+      decodeFailures: this.listener.getDecodeFailures(),
+      reconnects: this.resubscribes + this.connectionRecreations,
+      resubscribes: this.resubscribes,
+      connectionRecreations: this.connectionRecreations,
+    };
+  }
+
+  /**
+   * Resubscribes on a stall, escalating to a new connection when resubscribing doesn't help
+   */
+  private async checkHealth() {
+    if (this.recovering) return;
+
+    const idle = this.listener.getMillisSinceLastLog();
+    if (idle < this.options.stallThreshold) {
+      // A resubscribe restarts the stall window, only logs arriving since prove it worked
+      if (this.listener.getLastLogReceivedAt() > this.lastRecoveryAt) {
+        this.consecutiveStalls = 0;
+      }
+      return;
+    }
+
+    this.recovering = true;
+    this.consecutiveStalls++;
+    this.lastRecoveryAt = Date.now();
+
+    try {
+      if (this.consecutiveStalls <= this.options.maxResubscribeAttempts) {
+        console.warn(
+          `⚠️ No logs for ${Math.round(idle / 1000)}s, resubscribing (attempt ${this.consecutiveStalls}/${this.options.maxResubscribeAttempts})...`
+        );
+        this.resubscribes++;
+        await this.listener.resubscribe();
+      } else {
+        console.warn(`⚠️ No logs for ${Math.round(idle / 1000)}s, recreating the connection...`);
+        this.connectionRecreations++;
+        this.consecutiveStalls = 0;
+        await this.listener.recreateConnection();
+      }
+    } catch (error) {
+      console.error('❌ Failed to revive the listener:', error);
+    } finally {
+      this.recovering = false;
+    }
+  }
+
+  /**
+   * Prints the counters to the console
+   */
+  private logStats() {
+    const stats = this.getStats();
+    console.log(
+      `📈 Listener stats - events: ${stats.eventsSeen}, decode failures: ${stats.decodeFailures}, reconnects: ${stats.reconnects} (resubscribes: ${stats.resubscribes}, new connections: ${stats.connectionRecreations}), last log ${Math.round(stats.millisSinceLastLog / 1000)}s ago`
+    );
+  }
+}
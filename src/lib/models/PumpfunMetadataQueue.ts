@@ -0,0 +1,157 @@
+// src/lib/models/PumpfunMetadataQueue.ts
+import { TokenMetadata } from '../types/types';
+import { PumpFunMetadataResolver } from './PumpfunMetadataResolver';
+import { MetadataJob } from '../db/schema';
+import {
+  claimMetadataJobsFromDB,
+  completeMetadataJobInDB,
+  failMetadataJobInDB,
+} from '../db/queries';
+
+export interface MetadataQueueOptions {
+  concurrency?: number; // jobs fetched at the same time
+  pollInterval?: number; // ms between polls when the queue is empty
+  maxAttempts?: number; // attempts before a job is marked failed
+  baseBackoff?: number; // ms before the first retry, doubled every attempt
+  maxBackoff?: number; // cap on the retry delay
+  leaseTime?: number; // ms before a job stuck in processing is claimed again
+  resolver?: PumpFunMetadataResolver; // shared resolver, one is created when unset
+}
+
+const DEFAULT_OPTIONS: Required<Omit<MetadataQueueOptions, 'resolver'>> = {
+  concurrency: 10,
+  pollInterval: 1000,
+  maxAttempts: 8,
+  baseBackoff: 5000,
+  maxBackoff: 60 * 60 * 1000,
+  leaseTime: 5 * 60 * 1000,
+};
+
+/**
+ * Works through the metadata_jobs table, fetching each token's metadata URI and
+ * filling in its description and image. Failures are retried with exponential backoff
+ */
+export class PumpFunMetadataQueue {
+  private options: Required<Omit<MetadataQueueOptions, 'resolver'>>;
+  private resolver: PumpFunMetadataResolver;
+  private running: boolean = false;
+  private loop: Promise<void> | null = null;
+
+  /**
+   * Constructor
+   * @param {MetadataQueueOptions} options - worker settings, unset values use the defaults
+   */
+  constructor(options: MetadataQueueOptions = {}) {
+    this.options = {
+      concurrency: options.concurrency ?? DEFAULT_OPTIONS.concurrency,
+      pollInterval: options.pollInterval ?? DEFAULT_OPTIONS.pollInterval,
+      maxAttempts: options.maxAttempts ?? DEFAULT_OPTIONS.maxAttempts,
+      baseBackoff: options.baseBackoff ?? DEFAULT_OPTIONS.baseBackoff,
+      maxBackoff: options.maxBackoff ?? DEFAULT_OPTIONS.maxBackoff,
+      leaseTime: options.leaseTime ?? DEFAULT_OPTIONS.leaseTime,
+    };
+    this.resolver = options.resolver ?? new PumpFunMetadataResolver();
+  }
+
+  /**
+   * Starts polling the queue in the background
+   */
+  start() {
+    if (this.running) return;
+
+    console.log(`📥 Metadata queue worker started (concurrency ${this.options.concurrency})`);
+    this.running = true;
+    this.loop = this.run();
+  }
+
+  /**
+   * Stops polling and waits for the jobs in hand to finish
+   */
+  async stop() {
+    this.running = false;
+    await this.loop;
+    this.loop = null;
+    console.log('🛑 Metadata queue worker stopped');
+  }
+
+  /**
+   * Polls until stopped, only sleeping when there was nothing to do
+   */
+  private async run() {
+    while (this.running) {
+      const processed = await this.processBatch();
+
+      if (processed === 0) {
+        await new Promise(resolve => setTimeout(resolve, this.options.pollInterval));
+      }
+    }
+  }
+
+  /**
+   * Claims and processes one batch of due jobs
+   * @returns the number of jobs processed
+   */
+  async processBatch(): Promise<number> {
+    const jobs = await claimMetadataJobsFromDB(this.options.concurrency, this.options.leaseTime);
+
+    await Promise.all(jobs.map(job => this.processJob(job)));
+
+    return jobs.length;
+  }
+
+  /**
+   * Fetches one job's metadata and records the outcome
+   */
+  private async processJob(job: MetadataJob) {
+    try {
+      const metadata = await this.getTokenMetadataFromUri(job.uri);
+
+      await completeMetadataJobInDB(job, {
+        description: metadata.description,
+        image: metadata.image,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const attempts = job.attempts + 1;
+
+      // Out of attempts, leave it failed until someone retries it by hand
+      if (attempts >= this.options.maxAttempts) {
+        console.warn(
+          `⚠️ Metadata for ${job.tokenAddress} failed ${attempts} times: ${errorMessage}`
+        );
+        await failMetadataJobInDB(job, errorMessage, null);
+        return;
+      }
+
+      const delay = Math.min(
+        this.options.baseBackoff * Math.pow(2, job.attempts),
+        this.options.maxBackoff
+      );
+      await failMetadataJobInDB(job, errorMessage, new Date(Date.now() + delay));
+    }
+  }
+
+  /**
+   * Fetch token metadata from its URI through the gateway resolver and its cache
+   * A single attempt, retries are scheduled by the queue
+   * @param {string} uri - The metadata URI from the CreateEvent
+   * @returns {Promise<TokenMetadata>}
+   */
+  async getTokenMetadataFromUri(uri: string): Promise<TokenMetadata> {
+    if (!uri || uri.trim() === '') {
+      throw new Error('Empty URI provided');
+    }
+
+    const metadata = await this.resolver.resolve(uri);
+
+    // Extract the metadata fields we need
+    return {
+      mint: '', // This will be set by the calling function
+      name: String(metadata.name || 'Unknown Token'),
+      symbol: String(metadata.symbol || 'UNKNOWN'),
+      uri: uri,
+      description: String(metadata.description || ''), // PumpFun often has empty descriptions
+      image: String(metadata.image || ''),
+    };
+  }
+}
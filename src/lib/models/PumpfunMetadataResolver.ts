@@ -0,0 +1,292 @@
+// src/lib/models/PumpfunMetadataResolver.ts
+import {
+  getCachedMetadataFromDB,
+  getCachedMetadataBatchFromDB,
+  cacheMetadataToDB,
+} from '../db/queries';
+
+export type ContentId =
+  | { kind: 'ipfs'; id: string; path: string }
+  | { kind: 'arweave'; id: string; path: string }
+  | { kind: 'url'; url: string };
+
+export interface GatewayHealth {
+  gateway: string;
+  score: number; // moving average of successes, 1 is always healthy
+  latency: number; // moving average of successful response times in ms
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: number; // unix ms, the gateway is tried last until then
+}
+
+export interface MetadataResolverOptions {
+  ipfsGateways?: string[];
+  arweaveGateways?: string[];
+  timeout?: number; // ms per gateway request
+}
+
+// Public gateways, overridable with IPFS_GATEWAYS / ARWEAVE_GATEWAYS (comma separated)
+const DEFAULT_IPFS_GATEWAYS = [
+  'https://ipfs.io/ipfs/',
+  'https://gateway.pinata.cloud/ipfs/',
+  'https://dweb.link/ipfs/',
+];
+const DEFAULT_ARWEAVE_GATEWAYS = ['https://arweave.net/', 'https://ar-io.net/'];
+
+// CIDv0 (base58 Qm...) and CIDv1 (base32 b...)
+const CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})$/;
+const ARWEAVE_ID_PATTERN = /^[a-zA-Z0-9_-]{43}$/;
+
+// Weight of the newest sample in the moving averages
+const HEALTH_SMOOTHING = 0.2;
+const MAX_COOLDOWN = 5 * 60 * 1000;
+
+/**
+ * Splits the gateway list env var, falling back to the defaults
+ */
+const gatewaysFromEnv = (value: string | undefined, defaults: string[]): string[] => {
+  const gateways = (value || '')
+    .split(',')
+    .map(gateway => gateway.trim())
+    .filter(gateway => gateway !== '');
+
+  return (gateways.length > 0 ? gateways : defaults).map(gateway =>
+    gateway.endsWith('/') ? gateway : `${gateway}/`
+  );
+};
+
+/**
+ * Works out what a metadata URI points at, content addressed ids can be served by any gateway
+ * @param {string} uri - metadata URI as it appears on chain
+ */
+export const parseContentId = (uri: string): ContentId => {
+  const trimmed = uri.trim();
+
+  if (trimmed.startsWith('ipfs://')) {
+    const [id, ...rest] = trimmed
+      .slice('ipfs://'.length)
+      .replace(/^ipfs\//, '')
+      .split('/');
+    return { kind: 'ipfs', id, path: rest.join('/') };
+  }
+
+  if (trimmed.startsWith('ar://')) {
+    const [id, ...rest] = trimmed.slice('ar://'.length).split('/');
+    return { kind: 'arweave', id, path: rest.join('/') };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return { kind: 'url', url: trimmed };
+  }
+
+  // Path gateways: https://<gateway>/ipfs/<cid>/<path>
+  const segments = url.pathname.split('/').filter(segment => segment !== '');
+  const ipfsIndex = segments.indexOf('ipfs');
+  if (ipfsIndex !== -1 && CID_PATTERN.test(segments[ipfsIndex + 1] || '')) {
+    return {
+      kind: 'ipfs',
+      id: segments[ipfsIndex + 1],
+      path: segments.slice(ipfsIndex + 2).join('/'),
+    };
+  }
+
+  // Subdomain gateways: https://<cid>.ipfs.<gateway>/<path>
+  const [subdomain, second] = url.hostname.split('.');
+  if (second === 'ipfs' && CID_PATTERN.test(subdomain)) {
+    return { kind: 'ipfs', id: subdomain, path: segments.join('/') };
+  }
+
+  // Arweave: https://arweave.net/<id>/<path>
+  if (url.hostname.endsWith('arweave.net') && ARWEAVE_ID_PATTERN.test(segments[0] || '')) {
+    return { kind: 'arweave', id: segments[0], path: segments.slice(1).join('/') };
+  }
+
+  return { kind: 'url', url: trimmed };
+};
+
+/**
+ * Fetches metadata JSON, rotating IPFS and Arweave gateways by health and caching
+ * content addressed documents in Postgres so a CID is only ever downloaded once
+ */
+export class PumpFunMetadataResolver {
+  private ipfsGateways: string[];
+  private arweaveGateways: string[];
+  private timeout: number;
+  private health: Map<string, GatewayHealth> = new Map();
+
+  /**
+   * Constructor
+   * @param {MetadataResolverOptions} options - gateways and timeout, env or defaults when unset
+   */
+  constructor(options: MetadataResolverOptions = {}) {
+    this.ipfsGateways =
+      options.ipfsGateways ?? gatewaysFromEnv(process.env.IPFS_GATEWAYS, DEFAULT_IPFS_GATEWAYS);
+    this.arweaveGateways =
+      options.arweaveGateways ??
+      gatewaysFromEnv(process.env.ARWEAVE_GATEWAYS, DEFAULT_ARWEAVE_GATEWAYS);
+    this.timeout = options.timeout ?? 10000;
+
+    for (const gateway of [...this.ipfsGateways, ...this.arweaveGateways]) {
+      this.health.set(gateway, {
+        gateway,
+        score: 1,
+        latency: 0,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        cooldownUntil: 0,
+      });
+    }
+  }
+
+  /**
+   * Resolve a metadata URI to its JSON document
+   * @param {string} uri - metadata URI as it appears on chain
+   */
+  async resolve(uri: string): Promise<Record<string, unknown>> {
+    const contentId = parseContentId(uri);
+
+    if (contentId.kind === 'url') {
+      // Plain URLs can change over time so they are neither rotated nor cached
+      return await this.fetchJson(contentId.url);
+    }
+
+    const cacheKey = this.cacheKey(contentId);
+    const cached = await getCachedMetadataFromDB(cacheKey);
+    if (cached) return cached;
+
+    const gateways = contentId.kind === 'ipfs' ? this.ipfsGateways : this.arweaveGateways;
+    const errors: string[] = [];
+
+    for (const gateway of this.rankGateways(gateways)) {
+      const url = `${gateway}${contentId.id}${contentId.path ? `/${contentId.path}` : ''}`;
+      const startedAt = Date.now();
+
+      try {
+        const document = await this.fetchJson(url);
+        this.recordSuccess(gateway, Date.now() - startedAt);
+        await cacheMetadataToDB(cacheKey, uri, document);
+        return document;
+      } catch (error) {
+        this.recordFailure(gateway);
+        errors.push(`${gateway}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    throw new Error(`All gateways failed for ${cacheKey} (${errors.join('; ')})`);
+  }
+
+  /**
+   * Cached documents for many metadata URIs, nothing is downloaded
+   * @param {string[]} uris - metadata URIs as they appear on chain
+   * @returns documents by URI, plain URLs and content that isn't cached yet are left out
+   */
+  async getCachedDocuments(uris: string[]): Promise<Map<string, Record<string, unknown>>> {
+    const cacheKeys = new Map<string, string>();
+    for (const uri of uris) {
+      const contentId = parseContentId(uri);
+      if (contentId.kind !== 'url') cacheKeys.set(uri, this.cacheKey(contentId));
+    }
+
+    const cached = await getCachedMetadataBatchFromDB([...new Set(cacheKeys.values())]);
+
+    const documents = new Map<string, Record<string, unknown>>();
+    cacheKeys.forEach((cacheKey, uri) => {
+      const document = cached.get(cacheKey);
+      if (document) documents.set(uri, document);
+    });
+    return documents;
+  }
+
+  /**
+   * Current health of every gateway, best first
+   */
+  getGatewayHealth(): GatewayHealth[] {
+    return this.rankGateways([...this.health.keys()]).map(gateway => ({
+      ...this.health.get(gateway)!,
+    }));
+  }
+
+  /**
+   * Cache key for a content addressed document, e.g. ipfs:Qm.../metadata.json
+   */
+  private cacheKey(contentId: Exclude<ContentId, { kind: 'url' }>): string {
+    return `${contentId.kind}:${contentId.id}${contentId.path ? `/${contentId.path}` : ''}`;
+  }
+
+  /**
+   * Healthy gateways by score then latency, cooling down gateways go last
+   */
+  private rankGateways(gateways: string[]): string[] {
+    const now = Date.now();
+
+    return [...gateways].sort((a, b) => {
+      const healthA = this.health.get(a)!;
+      const healthB = this.health.get(b)!;
+      const coolingA = healthA.cooldownUntil > now ? 1 : 0;
+      const coolingB = healthB.cooldownUntil > now ? 1 : 0;
+
+      if (coolingA !== coolingB) return coolingA - coolingB;
+      if (healthA.score !== healthB.score) return healthB.score - healthA.score;
+      return healthA.latency - healthB.latency;
+    });
+  }
+
+  private recordSuccess(gateway: string, latency: number) {
+    const health = this.health.get(gateway)!;
+    health.score = health.score * (1 - HEALTH_SMOOTHING) + HEALTH_SMOOTHING;
+    health.latency =
+      health.successes === 0
+        ? latency
+        : health.latency * (1 - HEALTH_SMOOTHING) + latency * HEALTH_SMOOTHING;
+    health.successes++;
+    health.consecutiveFailures = 0;
+    health.cooldownUntil = 0;
+  }
+
+  private recordFailure(gateway: string) {
+    const health = this.health.get(gateway)!;
+    health.score = health.score * (1 - HEALTH_SMOOTHING);
+    health.failures++;
+    health.consecutiveFailures++;
+    // Back off harder the longer a gateway keeps failing: 1s, 2s, 4s... up to 5 minutes
+    health.cooldownUntil =
+      Date.now() + Math.min(1000 * Math.pow(2, health.consecutiveFailures - 1), MAX_COOLDOWN);
+  }
+
+  /**
+   * Fetch a URL and parse it as JSON, gateways don't always send a JSON content type
+   */
+  private async fetchJson(url: string): Promise<Record<string, unknown>> {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+        'User-Agent': 'PumpFun-Token-Fetcher/1.0',
+      },
+      // Add timeout to prevent hanging
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const body = await response.text();
+    try {
+      const document = JSON.parse(body);
+      if (!document || typeof document !== 'object' || Array.isArray(document)) {
+        throw new Error('not an object');
+      }
+      return document;
+    } catch {
+      throw new Error(
+        `Response is not a JSON object (content type ${response.headers.get('content-type')})`
+      );
+    }
+  }
+}
@@ -0,0 +1,174 @@
+// src/lib/models/PumpfunProtocolParams.ts
+import { address, getProgramDerivedAddress } from 'gill';
+import * as borsh from '@coral-xyz/borsh';
+import { CurveParams, DEFAULT_CURVE_PARAMS } from './PumpfunBondingCurve';
+import { PumpFunRpcProvider } from './PumpfunRpcProvider';
+import { PumpFunRpcScheduler } from './PumpfunRpcScheduler';
+import { getProtocolParamsHistoryFromDB, ProtocolParamsDocument } from '../db/queries';
+
+// Global account schema
+export const globalSchema = borsh.struct([
+  borsh.array(borsh.u8(), 8, 'discriminator'),
+  borsh.bool('initialized'),
+  borsh.publicKey('authority'),
+  borsh.publicKey('feeRecipient'),
+  borsh.u64('initialVirtualTokenReserves'),
+  borsh.u64('initialVirtualSolReserves'),
+  borsh.u64('initialRealTokenReserves'),
+  borsh.u64('tokenTotalSupply'),
+  borsh.u64('feeBasisPoints'),
+  borsh.publicKey('withdrawAuthority'),
+  borsh.bool('enableMigrate'),
+  borsh.u64('poolMigrationFee'),
+  borsh.u64('creatorFeeBasisPoints'),
+  borsh.array(borsh.publicKey(), 7, 'feeRecipients'),
+  borsh.publicKey('setCreatorAuthority'),
+]);
+
+const PUMPFUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+const RELOAD_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Decodes raw Global account data, u64s and pubkeys come back as strings
+ * @param {Buffer} data - the account's data bytes, newer fields past the schema are ignored
+ */
+export const decodeGlobal = (
+  data: Buffer
+): Omit<ProtocolParamsDocument, 'source' | 'slot' | 'timestamp'> => {
+  const decoded = globalSchema.decode(data);
+
+  return {
+    initialVirtualTokenReserves: decoded.initialVirtualTokenReserves.toString(),
+    initialVirtualSolReserves: decoded.initialVirtualSolReserves.toString(),
+    initialRealTokenReserves: decoded.initialRealTokenReserves.toString(),
+    tokenTotalSupply: decoded.tokenTotalSupply.toString(),
+    feeBasisPoints: decoded.feeBasisPoints.toString(),
+    creatorFeeBasisPoints: decoded.creatorFeeBasisPoints.toString(),
+    enableMigrate: decoded.enableMigrate,
+    poolMigrationFee: decoded.poolMigrationFee.toString(),
+    withdrawAuthority: decoded.withdrawAuthority.toBase58(),
+    setCreatorAuthority: decoded.setCreatorAuthority.toBase58(),
+    feeRecipients: decoded.feeRecipients.map((recipient: { toBase58(): string }) =>
+      recipient.toBase58()
+    ),
+    authority: decoded.authority.toBase58(),
+    feeRecipient: decoded.feeRecipient.toBase58(),
+  };
+};
+
+/**
+ * Reads and decodes the program's Global account
+ * @param {PumpFunRpcProvider} provider - RPC endpoints to read from
+ * @param {PumpFunRpcScheduler} scheduler - rate limits and retries the request
+ * @returns a snapshot at the slot it was read at, null when the account doesn't exist
+ */
+export const getGlobalParams = async (
+  provider: PumpFunRpcProvider,
+  scheduler: PumpFunRpcScheduler
+): Promise<ProtocolParamsDocument | null> => {
+  const [globalAddress] = await getProgramDerivedAddress({
+    seeds: ['global'],
+    programAddress: address(PUMPFUN_PROGRAM_ID),
+  });
+
+  const globalAccountInfo = await scheduler.schedule('getAccountInfo', () =>
+    provider.request('rpc', ({ client }) =>
+      client.rpc.getAccountInfo(globalAddress, { encoding: 'base64' }).send()
+    )
+  );
+
+  if (!globalAccountInfo.value) {
+    return null;
+  }
+
+  return {
+    source: 'global_account',
+    slot: Number(globalAccountInfo.context.slot),
+    timestamp: new Date(),
+    ...decodeGlobal(Buffer.from(globalAccountInfo.value.data[0], 'base64')),
+  };
+};
+
+/**
+ * The curve math inputs from a set of protocol params
+ */
+export const toCurveParams = (params: ProtocolParamsDocument): CurveParams => ({
+  initialRealTokenReserves: BigInt(params.initialRealTokenReserves),
+  tokenDecimals: DEFAULT_CURVE_PARAMS.tokenDecimals,
+});
+
+/**
+ * In-memory copy of the protocol params history that answers which params were in effect
+ * at a slot. It reloads from the DB every few minutes so other processes' changes show up
+ */
+export class PumpFunProtocolParams {
+  private history: ProtocolParamsDocument[] = []; // oldest slot first
+  private loadedAt: number = 0;
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Params in effect at a slot, the latest entry at or before it
+   * @param {number} slot - target slot, the latest params when unset
+   * @returns null when nothing was recorded at or before the slot
+   */
+  async getAt(slot?: number | null): Promise<ProtocolParamsDocument | null> {
+    await this.load();
+
+    if (slot === undefined || slot === null) {
+      return this.history[this.history.length - 1] ?? null;
+    }
+
+    // Binary search for the last entry at or before the slot
+    let low = 0;
+    let high = this.history.length - 1;
+    let found: ProtocolParamsDocument | null = null;
+
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2);
+      if (this.history[middle].slot <= slot) {
+        found = this.history[middle];
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Curve math inputs in effect at a slot, the launch values when nothing is recorded
+   * @param {number} slot - target slot, usually the token's creation slot
+   */
+  async getCurveParamsAt(slot?: number | null): Promise<CurveParams> {
+    const params = await this.getAt(slot);
+    return params ? toCurveParams(params) : DEFAULT_CURVE_PARAMS;
+  }
+
+  /**
+   * Adds params this process just recorded without waiting for the next reload
+   */
+  add(params: ProtocolParamsDocument) {
+    const index = this.history.findIndex(entry => entry.slot > params.slot);
+    this.history.splice(index === -1 ? this.history.length : index, 0, params);
+  }
+
+  /**
+   * Reloads the history when it is older than the reload interval
+   */
+  private async load() {
+    if (Date.now() - this.loadedAt < RELOAD_INTERVAL) return;
+
+    // Concurrent callers share one query
+    this.loading ??= getProtocolParamsHistoryFromDB()
+      .then(history => {
+        this.history = history;
+        this.loadedAt = Date.now();
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+
+    await this.loading;
+  }
+}
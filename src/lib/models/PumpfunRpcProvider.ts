@@ -0,0 +1,276 @@
+// src/lib/models/PumpfunRpcProvider.ts
+import { createSolanaClient, SolanaClient } from 'gill';
+import { isRateLimited, RpcRequestError } from './PumpfunRpcScheduler';
+
+export type RpcCapability = 'rpc' | 'das' | 'websocket';
+
+export interface RpcEndpointConfig {
+  name?: string; // shown in logs and stats, defaults to the url's host so api keys stay out
+  url: string; // http(s) url
+  wsUrl?: string; // websocket url, derived from url when unset
+  capabilities: RpcCapability[];
+}
+
+export interface RpcEndpoint extends Required<Omit<RpcEndpointConfig, 'wsUrl'>> {
+  wsUrl?: string;
+  client: SolanaClient<string>;
+}
+
+export interface RpcEndpointStats {
+  name: string;
+  capabilities: RpcCapability[];
+  requests: number;
+  failures: number; // rate limits, server errors and network failures
+  rateLimited: number;
+  errorRate: number; // failures per request, 0 to 1
+  averageLatency: number; // ms per successful request
+  cooldownUntil: number; // unix ms, the endpoint is tried last until then
+}
+
+interface EndpointCounters {
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  totalLatency: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+}
+
+const RPC_CAPABILITIES: RpcCapability[] = ['rpc', 'das', 'websocket'];
+const MAX_COOLDOWN = 5 * 60 * 1000;
+
+/**
+ * Whether an error was the endpoint's fault, as opposed to an answer about the request itself
+ */
+const isEndpointFailure = (error: unknown): boolean => {
+  if (isRateLimited(error)) return true;
+
+  // Raw requests report HTTP errors with the status as the code, JSON-RPC codes are negative
+  if (error instanceof RpcRequestError) return error.code >= 500;
+
+  // gill puts the HTTP status on the error context
+  if (error && typeof error === 'object' && 'context' in error) {
+    const contextError = error as { context?: { statusCode?: number } };
+    const statusCode = contextError.context?.statusCode;
+    if (statusCode !== undefined) return statusCode >= 500;
+  }
+
+  // fetch() network failures and timeouts
+  if (error instanceof TypeError) return true;
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError');
+};
+
+/**
+ * Reads the endpoint list from RPC_ENDPOINTS (a JSON array of RpcEndpointConfig), falling
+ * back to HELIUS_RPC_URL and HELIUS_KEY
+ */
+export const rpcEndpointsFromEnv = (): RpcEndpointConfig[] => {
+  if (process.env.RPC_ENDPOINTS) {
+    const endpoints = JSON.parse(process.env.RPC_ENDPOINTS);
+    if (!Array.isArray(endpoints)) {
+      throw new Error('RPC_ENDPOINTS must be a JSON array of endpoints');
+    }
+    return endpoints;
+  }
+
+  const endpoints: RpcEndpointConfig[] = [];
+  if (process.env.HELIUS_RPC_URL) {
+    endpoints.push({
+      url: process.env.HELIUS_RPC_URL,
+      capabilities: ['rpc', 'websocket'],
+    });
+  }
+  if (process.env.HELIUS_KEY) {
+    endpoints.push({
+      url: `https://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS_KEY}`,
+      capabilities: ['rpc', 'das'],
+    });
+  }
+  return endpoints;
+};
+
+/**
+ * An ordered list of RPC endpoints from any provider. Requests go to the first healthy
+ * endpoint with the capability they need and fail over to the next one on rate limits,
+ * server errors and network failures
+ */
+export class PumpFunRpcProvider {
+  private endpoints: RpcEndpoint[];
+  private counters: Map<string, EndpointCounters> = new Map();
+
+  /**
+   * Constructor
+   * @param {RpcEndpointConfig[]} endpoints - endpoints in order of preference
+   */
+  constructor(endpoints: RpcEndpointConfig[]) {
+    if (endpoints.length === 0) {
+      throw new Error('At least one RPC endpoint is required');
+    }
+
+    this.endpoints = endpoints.map((endpoint, index) => {
+      const unknown = endpoint.capabilities.filter(
+        capability => !RPC_CAPABILITIES.includes(capability)
+      );
+      if (unknown.length > 0) {
+        throw new Error(
+          `Invalid capabilities ${unknown.join(', ')} on RPC endpoint ${index}, expected one of: ${RPC_CAPABILITIES.join(', ')}`
+        );
+      }
+
+      return {
+        name: endpoint.name ?? `${new URL(endpoint.url).host}#${index}`,
+        url: endpoint.url,
+        wsUrl: endpoint.wsUrl,
+        capabilities: endpoint.capabilities,
+        client: createSolanaClient({ urlOrMoniker: endpoint.url }),
+      };
+    });
+
+    for (const endpoint of this.endpoints) {
+      this.counters.set(endpoint.name, {
+        requests: 0,
+        failures: 0,
+        rateLimited: 0,
+        totalLatency: 0,
+        consecutiveFailures: 0,
+        cooldownUntil: 0,
+      });
+    }
+  }
+
+  /**
+   * Creates a provider from RPC_ENDPOINTS, or HELIUS_RPC_URL and HELIUS_KEY when it is unset
+   */
+  static fromEnv(): PumpFunRpcProvider {
+    return new PumpFunRpcProvider(rpcEndpointsFromEnv());
+  }
+
+  /**
+   * Whether any endpoint can serve the capability
+   */
+  supports(capability: RpcCapability): boolean {
+    return this.endpoints.some(endpoint => endpoint.capabilities.includes(capability));
+  }
+
+  /**
+   * The endpoint to use next for a capability, the first one that isn't cooling down
+   * @param {RpcCapability} capability - what the endpoint has to support
+   * @param {RpcEndpoint} exclude - skip this endpoint if there is any other, used to rotate
+   */
+  getEndpoint(capability: RpcCapability, exclude?: RpcEndpoint): RpcEndpoint {
+    const candidates = this.rankEndpoints(capability);
+    if (candidates.length === 0) {
+      throw new Error(`No RPC endpoint with the ${capability} capability`);
+    }
+
+    return candidates.find(endpoint => endpoint !== exclude) ?? candidates[0];
+  }
+
+  /**
+   * Sends a request, failing over to the next endpoint when one fails
+   * Errors that are about the request itself are thrown straight away
+   * @param {RpcCapability} capability - what the endpoint has to support
+   * @param {(endpoint: RpcEndpoint) => Promise<T>} send - sends the request to one endpoint
+   */
+  async request<T>(
+    capability: RpcCapability,
+    send: (endpoint: RpcEndpoint) => Promise<T>
+  ): Promise<T> {
+    const candidates = this.rankEndpoints(capability);
+    if (candidates.length === 0) {
+      throw new Error(`No RPC endpoint with the ${capability} capability`);
+    }
+
+    let lastError: unknown;
+    for (const endpoint of candidates) {
+      this.counters.get(endpoint.name)!.requests++;
+      const startedAt = Date.now();
+
+      try {
+        const result = await send(endpoint);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        if (!isEndpointFailure(error)) {
+          this.recordSuccess(endpoint, Date.now() - startedAt);
+          throw error;
+        }
+
+        this.recordFailure(endpoint, error);
+        lastError = error;
+      }
+    }
+
+    // Every endpoint failed, the caller's retries take it from here
+    throw lastError;
+  }
+
+  /**
+   * Reports an endpoint that failed outside a request, e.g. a websocket that went quiet
+   * @param {RpcEndpoint} endpoint - the failing endpoint
+   * @param {string} reason - shown in the logs
+   */
+  reportFailure(endpoint: RpcEndpoint, reason: string) {
+    this.counters.get(endpoint.name)!.requests++;
+    this.recordFailure(endpoint, new Error(reason));
+  }
+
+  /**
+   * Request, error and latency counters per endpoint, in configured order
+   */
+  getStats(): RpcEndpointStats[] {
+    return this.endpoints.map(endpoint => {
+      const counters = this.counters.get(endpoint.name)!;
+      const successes = counters.requests - counters.failures;
+
+      return {
+        name: endpoint.name,
+        capabilities: endpoint.capabilities,
+        requests: counters.requests,
+        failures: counters.failures,
+        rateLimited: counters.rateLimited,
+        errorRate: counters.requests > 0 ? counters.failures / counters.requests : 0,
+        averageLatency: successes > 0 ? counters.totalLatency / successes : 0,
+        cooldownUntil: counters.cooldownUntil,
+      };
+    });
+  }
+
+  /**
+   * Endpoints with the capability in configured order, cooling down endpoints go last
+   */
+  private rankEndpoints(capability: RpcCapability): RpcEndpoint[] {
+    const now = Date.now();
+    const capable = this.endpoints.filter(endpoint => endpoint.capabilities.includes(capability));
+    const coolingDown = (endpoint: RpcEndpoint) =>
+      this.counters.get(endpoint.name)!.cooldownUntil > now;
+
+    return [
+      ...capable.filter(endpoint => !coolingDown(endpoint)),
+      ...capable.filter(endpoint => coolingDown(endpoint)),
+    ];
+  }
+
+  private recordFailure(endpoint: RpcEndpoint, error: unknown) {
+    const counters = this.counters.get(endpoint.name)!;
+    counters.failures++;
+    counters.consecutiveFailures++;
+    if (isRateLimited(error)) counters.rateLimited++;
+
+    // Back off harder the longer an endpoint keeps failing: 1s, 2s, 4s... up to 5 minutes
+    const cooldown = Math.min(1000 * Math.pow(2, counters.consecutiveFailures - 1), MAX_COOLDOWN);
+    counters.cooldownUntil = Date.now() + cooldown;
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(
+      `🔀 RPC endpoint ${endpoint.name} failed (${errorMessage}), tried last for ${cooldown}ms`
+    );
+  }
+
+  private recordSuccess(endpoint: RpcEndpoint, latency: number) {
+    const counters = this.counters.get(endpoint.name)!;
+    counters.totalLatency += latency;
+    counters.consecutiveFailures = 0;
+    counters.cooldownUntil = 0;
+  }
+}
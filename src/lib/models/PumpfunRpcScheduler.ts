@@ -0,0 +1,255 @@
+// src/lib/models/PumpfunRpcScheduler.ts
+
+export interface RpcSchedulerOptions {
+  requestsPerSecond?: number; // token bucket refill rate, the plan's allowed RPS
+  burst?: number; // token bucket size, requests allowed back to back
+  concurrency?: number; // requests in flight at the same time
+  maxRetries?: number; // retries per request before giving up
+  baseBackoff?: number; // ms before the first retry, doubled every attempt
+  maxBackoff?: number; // cap on the retry delay
+}
+
+export interface RpcSchedulerStats {
+  requests: number; // attempts sent, retries included
+  succeeded: number;
+  failed: number; // requests that gave up
+  retries: number;
+  rateLimited: number; // 429 responses
+  inFlight: number;
+  queued: number;
+  requestsPerSecond: number; // successful requests per second since the scheduler was created
+  averageLatency: number; // ms per successful attempt
+}
+
+const DEFAULT_OPTIONS: Required<RpcSchedulerOptions> = {
+  requestsPerSecond: 10,
+  burst: 10,
+  concurrency: 5,
+  maxRetries: 5,
+  baseBackoff: 1000,
+  maxBackoff: 30000,
+};
+
+/**
+ * Error thrown by scheduled requests for JSON-RPC error responses
+ */
+export class RpcRequestError extends Error {
+  code: number;
+  retryable: boolean;
+
+  /**
+   * Constructor
+   * @param {string} message - error message from the RPC
+   * @param {number} code - JSON-RPC or HTTP error code
+   * @param {boolean} retryable - whether sending the request again can succeed
+   */
+  constructor(message: string, code: number, retryable: boolean) {
+    super(message);
+    this.name = 'RpcRequestError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Whether an error means we went over the RPC rate limit
+ */
+export const isRateLimited = (error: unknown): boolean => {
+  if (error instanceof RpcRequestError) return error.code === 429;
+
+  // gill puts the HTTP status on the error context
+  if (error && typeof error === 'object' && 'context' in error) {
+    const contextError = error as { context?: { statusCode?: number } };
+    return contextError.context?.statusCode === 429;
+  }
+
+  return false;
+};
+
+/**
+ * Whether sending the same request again can succeed
+ */
+const isRetryable = (error: unknown): boolean => {
+  if (isRateLimited(error)) return true;
+  if (error instanceof RpcRequestError) return error.retryable;
+
+  if (error && typeof error === 'object' && 'context' in error) {
+    const contextError = error as { context?: { statusCode?: number } };
+    const statusCode = contextError.context?.statusCode;
+    if (statusCode !== undefined) return statusCode >= 500;
+  }
+
+  // fetch() network failures and timeouts
+  if (error instanceof TypeError) return true;
+  if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Runs every RPC request the fetcher makes through one token bucket and worker pool,
+ * retrying rate limited and transient failures with exponential backoff
+ */
+export class PumpFunRpcScheduler {
+  private options: Required<RpcSchedulerOptions>;
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private pausedUntil: number = 0;
+  private active: number = 0;
+  private waiting: (() => void)[] = [];
+  private createdAt: number = Date.now();
+  private stats = {
+    requests: 0,
+    succeeded: 0,
+    failed: 0,
+    retries: 0,
+    rateLimited: 0,
+    totalLatency: 0,
+  };
+
+  /**
+   * Constructor
+   * @param {RpcSchedulerOptions} options - limits and retry policy, unset values use the defaults
+   */
+  constructor(options: RpcSchedulerOptions = {}) {
+    this.options = {
+      requestsPerSecond: options.requestsPerSecond ?? DEFAULT_OPTIONS.requestsPerSecond,
+      burst: options.burst ?? options.requestsPerSecond ?? DEFAULT_OPTIONS.burst,
+      concurrency: options.concurrency ?? DEFAULT_OPTIONS.concurrency,
+      maxRetries: options.maxRetries ?? DEFAULT_OPTIONS.maxRetries,
+      baseBackoff: options.baseBackoff ?? DEFAULT_OPTIONS.baseBackoff,
+      maxBackoff: options.maxBackoff ?? DEFAULT_OPTIONS.maxBackoff,
+    };
+    this.tokens = this.options.burst;
+  }
+
+  /**
+   * Schedule a request, resolving with its result once it succeeds
+   * @param {string} label - request name used in logs
+   * @param {() => Promise<T>} request - sends the request, called again on every retry
+   * @param {number} maxRetries - override the scheduler's retry count for this request
+   */
+  async schedule<T>(
+    label: string,
+    request: () => Promise<T>,
+    maxRetries: number = this.options.maxRetries
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquireWorker();
+
+      let error: unknown;
+      try {
+        await this.acquireToken();
+
+        this.stats.requests++;
+        const startedAt = Date.now();
+        const result = await request();
+
+        this.stats.succeeded++;
+        this.stats.totalLatency += Date.now() - startedAt;
+        return result;
+      } catch (requestError) {
+        error = requestError;
+      } finally {
+        this.releaseWorker();
+      }
+
+      const rateLimited = isRateLimited(error);
+      if (rateLimited) this.stats.rateLimited++;
+
+      if (!isRetryable(error) || attempt >= maxRetries) {
+        this.stats.failed++;
+        throw error;
+      }
+
+      const delay = Math.min(
+        this.options.baseBackoff * Math.pow(2, attempt),
+        this.options.maxBackoff
+      );
+      this.stats.retries++;
+
+      // A 429 applies to every request, hold the whole bucket back rather than just this one
+      if (rateLimited) {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+        console.log(`⏱️ Rate limited on ${label}, pausing requests for ${delay}ms`);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.log(`⏱️ ${label} failed (${errorMessage}), retrying in ${delay}ms`);
+      }
+
+      // Jitter keeps the workers from retrying in lockstep
+      await new Promise(resolve => setTimeout(resolve, delay + Math.random() * delay * 0.2));
+    }
+  }
+
+  /**
+   * Current throughput and error counters
+   */
+  getStats(): RpcSchedulerStats {
+    const elapsedSeconds = Math.max((Date.now() - this.createdAt) / 1000, 1);
+
+    return {
+      requests: this.stats.requests,
+      succeeded: this.stats.succeeded,
+      failed: this.stats.failed,
+      retries: this.stats.retries,
+      rateLimited: this.stats.rateLimited,
+      inFlight: this.active,
+      queued: this.waiting.length,
+      requestsPerSecond: this.stats.succeeded / elapsedSeconds,
+      averageLatency: this.stats.succeeded > 0 ? this.stats.totalLatency / this.stats.succeeded : 0,
+    };
+  }
+
+  /**
+   * Waits for a free worker slot
+   */
+  private async acquireWorker() {
+    if (this.active < this.options.concurrency) {
+      this.active++;
+      return;
+    }
+
+    // The releasing worker hands its slot straight to us
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseWorker() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * Waits until the bucket has a token and no rate limit pause is active
+   */
+  private async acquireToken() {
+    while (true) {
+      const now = Date.now();
+
+      if (this.pausedUntil > now) {
+        await new Promise(resolve => setTimeout(resolve, this.pausedUntil - now));
+        continue;
+      }
+
+      this.tokens = Math.min(
+        this.options.burst,
+        this.tokens + ((now - this.lastRefill) / 1000) * this.options.requestsPerSecond
+      );
+      this.lastRefill = now;
+
+      if (this.tokens >= 1) {
+        this.tokens--;
+        return;
+      }
+
+      const wait = ((1 - this.tokens) / this.options.requestsPerSecond) * 1000;
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+}
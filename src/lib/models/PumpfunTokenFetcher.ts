@@ -2,25 +2,44 @@
 
 import bs58 from 'bs58';
 import {
+  Address,
   address,
-  createSolanaClient,
   getAddressEncoder,
   getProgramDerivedAddress,
+  Signature,
+  signature,
   SolanaClient,
 } from 'gill';
-import * as borsh from '@coral-xyz/borsh';
-import { TOKEN_PROGRAM_ADDRESS } from 'gill/programs/token';
-import dotenv from 'dotenv';
-import { TokenMetadata, BondingCurveData } from '../types/types';
+import { TOKEN_2022_PROGRAM_ADDRESS, TOKEN_PROGRAM_ADDRESS } from 'gill/programs/token';
+import { TokenMetadata, BondingCurveData, TokenExtension } from '../types/types';
+import { PumpFunRpcScheduler, RpcRequestError, RpcSchedulerStats } from './PumpfunRpcScheduler';
+import { PumpFunRpcProvider, RpcCapability, RpcEndpointStats } from './PumpfunRpcProvider';
+import {
+  bondingCurveSchema,
+  computeCurveMetrics,
+  decodeBondingCurve,
+  getMultipleBondingCurves,
+} from './PumpfunBondingCurve';
+import { getGlobalParams, PumpFunProtocolParams } from './PumpfunProtocolParams';
+import { PumpFunMetadataResolver } from './PumpfunMetadataResolver';
 
 import {
+  BackfillItemStatus,
+  CreationInfo,
+  enqueueBackfillItemsToDB,
+  failTokenCreationInfoInDB,
   getAllBondingCurveAddresses,
+  getBackfillStatsFromDB,
+  getPendingBackfillItemsFromDB,
+  getTokensMissingCreationInfoFromDB,
   getTokenStatsFromDB,
+  insertProtocolParamsToDB,
   insertTokensBatchToDB,
+  markBackfillItemsInDB,
+  TokenDocument,
+  updateTokenCreationInfoInDB,
 } from '../db/queries';
 
-dotenv.config();
-
 interface AccountData {
   lamports: number;
   owner: string;
@@ -35,104 +54,223 @@ interface ProgramAccount {
   account: AccountData;
 }
 
-interface GetProgramAccountsResponse {
-  jsonrpc: string;
+interface JsonRpcError {
+  code: number;
+  message: string;
+}
+
+// The parts of a DAS asset we read
+interface DasAsset {
   id: string;
-  result?: ProgramAccount[];
-  error?: {
-    code: number;
-    message: string;
+  content?: {
+    json_uri?: string;
+    metadata?: { name?: string; symbol?: string; description?: string };
+    files?: { uri?: string }[];
   };
 }
 
-interface TokenDocument {
-  bondingCurveAddress: string;
-  complete: boolean;
-  creator: string;
-  tokenAddress: string;
-  name: string;
-  symbol: string;
-  uri: string;
-  description: string;
-  image: string;
+// Why a bonding curve couldn't be resolved, failed items are retried later and skipped ones are not
+type BondingCurveFailure = {
+  status: Exclude<BackfillItemStatus, 'done' | 'pending'>;
+  reason: string;
+};
+
+type BondingCurveOutcome = { status: 'done'; token: TokenDocument } | BondingCurveFailure;
+
+// A token looked up on demand, not_found only when there is no pump.fun bonding curve to read
+export type TokenLookupOutcome =
+  | { status: 'found'; token: TokenDocument }
+  | { status: 'not_found' }
+  | { status: 'failed'; reason: string };
+
+// The token program that owns a mint and the mint's Token-2022 extensions
+export interface MintInfo {
+  tokenProgram: string;
+  extensions: TokenExtension[] | null; // null when they couldn't be read
+}
+
+// One bounded walk back through a curve's signature history
+export type CreationInfoOutcome =
+  | { status: 'found'; info: CreationInfo }
+  // Ran out of pages, the next walk resumes from cursor with the oldest successful one so far
+  | { status: 'partial'; cursor: string; candidate: CreationInfo | null }
+  | { status: 'failed' };
+
+type MintOutcome =
+  | {
+      status: 'resolved';
+      bondingCurveData: BondingCurveData;
+      tokenAddress: string;
+      mintInfo: MintInfo;
+    }
+  | BondingCurveFailure;
+
+export interface BackfillOptions {
+  rediscover?: boolean; // diff against the chain even if pending work is left
+  fullAccountData?: boolean; // download and decode every curve in the diff
+  limit?: number; // max work list items processed in this run
+  dryRun?: boolean; // report what would be processed without writing anything
 }
 
-// Bonding curve schema
-const bondingCurveSchema = borsh.struct([
-  borsh.array(borsh.u8(), 8, 'discriminator'),
-  borsh.u64('virtualTokenReserves'),
-  borsh.u64('virtualSolReserves'),
-  borsh.u64('realTokenReserves'),
-  borsh.u64('realSolReserves'),
-  borsh.u64('tokenTotalSupply'),
-  borsh.bool('complete'),
-  borsh.publicKey('creator'),
-]);
+export interface BackfillSummary {
+  done: number;
+  failed: number;
+  skipped: number;
+  remaining: number; // items still pending after the run
+  elapsedMs: number;
+}
 
 // Constant variables
 const PUMPFUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
 const BONDING_CURVE_DISCRIMINATOR = [23, 183, 248, 55, 96, 216, 172, 96];
+const BONDING_CURVE_SIZE = 81;
+const BONDING_CURVE_CREATOR_OFFSET = 49; // discriminator + five u64 fields + complete flag
+const BONDING_CURVE_PARTITIONS = 256; // getProgramAccounts requests, one per first byte of the creator
+const MAX_PREFETCHED_CURVES = 100_000; // decoded curves kept from discovery, the rest are read when processed
+const SIGNATURES_PAGE_SIZE = 1000; // Max signatures per getSignaturesForAddress call
+const CREATION_INFO_MAX_PAGES = 10; // signature pages walked per creation lookup
+const CREATION_INFO_BASE_BACKOFF = 60 * 1000; // ms before retrying a failed lookup, doubled every attempt
+const CREATION_INFO_MAX_BACKOFF = 24 * 60 * 60 * 1000;
+const DAS_BATCH_LIMIT = 1000; // Max ids per getAssetBatch call
+const DAS_BATCH_MAX_SPLITS = 2; // times a failed getAssetBatch chunk is halved and retried
 
 /**
  * PumpFun Token Fetcher with MongoDB Integration
  */
 class PumpFunTokenFetcher {
   // Initialize class variables
-  private connection: SolanaClient<string>;
-  private heliusUrl: string;
-  private retries: number = 0;
+  private provider: PumpFunRpcProvider;
+  private scheduler: PumpFunRpcScheduler;
+  private protocolParams: PumpFunProtocolParams;
+  private resolver: PumpFunMetadataResolver;
 
   /**
    * PumpfunTokenFetcher constructor setting the initial class variables
-   * @param {SolanaClient<string>} connection - the gill connection
-   * @param {string} heliusApiKey - api key
+   * @param {PumpFunRpcProvider} provider - RPC and DAS endpoints, in order of preference
+   * @param {PumpFunRpcScheduler} scheduler - rate limits and retries every RPC request
+   * @param {PumpFunProtocolParams} protocolParams - params history used for the curve math
+   * @param {PumpFunMetadataResolver} resolver - reads metadata documents from metadata_cache
+   */
+  constructor(
+    provider: PumpFunRpcProvider,
+    scheduler: PumpFunRpcScheduler = new PumpFunRpcScheduler(),
+    protocolParams: PumpFunProtocolParams = new PumpFunProtocolParams(),
+    resolver: PumpFunMetadataResolver = new PumpFunMetadataResolver()
+  ) {
+    this.provider = provider;
+    this.scheduler = scheduler;
+    this.protocolParams = protocolParams;
+    this.resolver = resolver;
+  }
+
+  /**
+   * Throughput and retry counters of the fetcher's RPC scheduler
    */
-  constructor(connection: SolanaClient<string>, heliusApiKey: string) {
-    this.connection = connection;
-    this.heliusUrl = `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`;
+  getRpcStats(): RpcSchedulerStats {
+    return this.scheduler.getStats();
+  }
+
+  /**
+   * Latency and error counters of every RPC endpoint
+   */
+  getEndpointStats(): RpcEndpointStats[] {
+    return this.provider.getStats();
+  }
+
+  /**
+   * Sends a standard RPC request through the scheduler, failing over between endpoints
+   * @param {string} label - request name used in logs
+   * @param {(client: SolanaClient<string>) => Promise<T>} send - sends the request with a client
+   */
+  private rpc<T>(label: string, send: (client: SolanaClient<string>) => Promise<T>): Promise<T> {
+    return this.scheduler.schedule(label, () =>
+      this.provider.request('rpc', ({ client }) => send(client))
+    );
+  }
+
+  /**
+   * Posts a raw JSON-RPC request for methods gill doesn't wrap, like DAS
+   * @param {RpcCapability} capability - what the endpoint has to support
+   * @param {object} requestBody - the JSON-RPC request
+   * @param {(error: JsonRpcError) => boolean} retryable - whether an error response can succeed later
+   * @param {number} maxRetries - override the scheduler's retry count
+   * @returns the result of the response
+   */
+  private postJsonRpc<T>(
+    capability: RpcCapability,
+    requestBody: { method: string },
+    retryable: (error: JsonRpcError) => boolean = () => false,
+    maxRetries?: number
+  ): Promise<T> {
+    return this.scheduler.schedule(
+      requestBody.method,
+      () =>
+        this.provider.request(capability, async ({ url }) => {
+          const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(requestBody),
+          });
+
+          if (response.status === 429 || response.status >= 500) {
+            throw new RpcRequestError(`HTTP ${response.status}`, response.status, true);
+          }
+
+          const data = await response.json();
+
+          if (data.error) {
+            throw new RpcRequestError(
+              data.error.message,
+              data.error.code,
+              data.error.code === 429 || retryable(data.error)
+            );
+          }
+
+          return data.result as T;
+        }),
+      maxRetries
+    );
   }
 
   /**
    * Get token mint address from bonding curve using the bonding curve ATA
+   * Checks the classic token program first and then Token-2022
    * @param {string} bondingCurveAddress - target bonding curve's we want a token mint for
+   * @returns the mint and the token program that owns it
    */
-  async getMintFromBondingCurveATA(bondingCurveAddress: string): Promise<string | null> {
+  async getMintFromBondingCurveATA(
+    bondingCurveAddress: string
+  ): Promise<{ mint: string; tokenProgram: string } | null> {
     try {
-      // Get all token accounts owned by this bonding curve should only have one
-      const tokenAccounts = await this.connection.rpc
-        .getTokenAccountsByOwner(
-          address(bondingCurveAddress),
-          {
-            programId: TOKEN_PROGRAM_ADDRESS,
-          },
-          {
-            encoding: 'jsonParsed',
-          }
-        )
-        .send();
-
-      // Handle some cases where tokens aren't there or to many are there
-      if (tokenAccounts.value.length === 0) {
-        throw new Error('This bonding curve has no spl tokens!');
-      } else if (tokenAccounts.value.length > 1) {
-        throw new Error('This bonding curve has more then one spl token!');
-      }
+      for (const tokenProgram of [TOKEN_PROGRAM_ADDRESS, TOKEN_2022_PROGRAM_ADDRESS]) {
+        // Get all token accounts owned by this bonding curve should only have one
+        const tokenAccounts = await this.rpc('getTokenAccountsByOwner', client =>
+          client.rpc
+            .getTokenAccountsByOwner(
+              address(bondingCurveAddress),
+              {
+                programId: tokenProgram,
+              },
+              {
+                encoding: 'jsonParsed',
+              }
+            )
+            .send()
+        );
 
-      // Returns the mint
-      return tokenAccounts.value[0].account.data.parsed.info.mint;
-    } catch (error) {
-      // Type guard for error handling
-      if (error && typeof error === 'object' && 'context' in error) {
-        const contextError = error as { context?: { statusCode?: number } };
-
-        // Handle retry
-        if (contextError.context?.statusCode === 429) {
-          console.log('Rate limit hit on getMintFromBondingCurveATA() function. Waiting 1 second');
-          await new Promise(resolve => setTimeout(resolve, 1000));
-          return await this.getMintFromBondingCurveATA(bondingCurveAddress);
+        // Handle the case where to many are there
+        if (tokenAccounts.value.length > 1) {
+          throw new Error(`This bonding curve has more then one ${tokenProgram} token!`);
+        }
+
+        // Returns the mint
+        if (tokenAccounts.value.length === 1) {
+          return { mint: tokenAccounts.value[0].account.data.parsed.info.mint, tokenProgram };
         }
       }
 
+      throw new Error('This bonding curve has no spl or Token-2022 tokens!');
+    } catch (error) {
       // Handle error message safely
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.warn('There was an error getting mint from bonding curve ata', errorMessage);
@@ -140,6 +278,36 @@ class PumpFunTokenFetcher {
     }
   }
 
+  /**
+   * Reads a mint account to find its token program and Token-2022 extensions
+   * @param {string} tokenAddress - target mint
+   */
+  async getMintInfo(tokenAddress: string): Promise<MintInfo | null> {
+    try {
+      const mintAccountInfo = await this.rpc('getAccountInfo', client =>
+        client.rpc.getAccountInfo(address(tokenAddress), { encoding: 'jsonParsed' }).send()
+      );
+
+      if (!mintAccountInfo.value) {
+        return null;
+      }
+
+      // jsonParsed lists each extension as { extension, state }, classic mints have none
+      const data = mintAccountInfo.value.data as {
+        parsed?: { info?: { extensions?: TokenExtension[] } };
+      };
+
+      return {
+        tokenProgram: mintAccountInfo.value.owner,
+        extensions: data.parsed?.info?.extensions ?? [],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn('There was an error getting the mint account', errorMessage);
+      return null;
+    }
+  }
+
   /**
    * Uses the bonding curve address to getAccountInfo which then uses the borsh struct to decode
    * @param {string} bondingCurveAddress - target bonding curve
@@ -147,58 +315,130 @@ class PumpFunTokenFetcher {
    */
   async getBondingCurveData(bondingCurveAddress: string): Promise<BondingCurveData | null> {
     try {
-      // Get bonding curve account data
-      const bondingCurveAccountInfo = await this.connection.rpc
+      const bondingCurveData = await this.readBondingCurve(bondingCurveAddress);
+
+      // return if theres nothing
+      if (!bondingCurveData) {
+        console.log(`No bonding curve account at ${bondingCurveAddress}`);
+      }
+
+      return bondingCurveData;
+    } catch (error) {
+      // Handle error message safely
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn('There was an error getting mint from getBondingCurveData()', errorMessage);
+      return null;
+    }
+  }
+
+  /**
+   * Reads a bonding curve account and decodes it, failed requests throw
+   * @param {string} bondingCurveAddress - target bonding curve
+   * @returns the curve, null when there is no pump.fun bonding curve at the address
+   */
+  private async readBondingCurve(bondingCurveAddress: string): Promise<BondingCurveData | null> {
+    const bondingCurveAccountInfo = await this.rpc('getAccountInfo', client =>
+      client.rpc
         .getAccountInfo(address(bondingCurveAddress), {
           encoding: 'base64',
         })
-        .send();
+        .send()
+    );
 
-      // return if theres nothing
-      if (!bondingCurveAccountInfo.value) {
-        console.log('the bonding curve account info was false\n', bondingCurveAccountInfo);
-        return null;
-      }
+    const account = bondingCurveAccountInfo.value;
+    if (!account || account.owner !== PUMPFUN_PROGRAM_ID) {
+      return null;
+    }
 
-      // Convert the data buffer
-      const base64Data = bondingCurveAccountInfo.value.data[0];
-      const dataBuffer = Buffer.from(base64Data, 'base64');
+    return decodeBondingCurve(Buffer.from(account.data[0], 'base64'));
+  }
 
-      // Decode the bonding curve account data using your schema
-      return bondingCurveSchema.decode(dataBuffer);
-    } catch (error) {
-      // Type guard for error handling
-      if (error && typeof error === 'object' && 'context' in error) {
-        const contextError = error as { context?: { statusCode?: number } };
-
-        // Handle retry
-        if (contextError.context?.statusCode === 429) {
-          console.log('Rate limit hit on getBondingCurveData() function. Waiting 1 second');
-          await new Promise(resolve => setTimeout(resolve, 1000));
-          return await this.getBondingCurveData(bondingCurveAddress);
+  /**
+   * Reads many bonding curves with getMultipleAccounts, 100 accounts per request
+   * @param {string[]} bondingCurveAddresses - target bonding curves
+   * @returns decoded curves by address, null where the account doesn't exist and no entry where
+   * it couldn't be read
+   */
+  async getMultipleBondingCurveData(
+    bondingCurveAddresses: string[]
+  ): Promise<Map<string, BondingCurveData | null>> {
+    return await getMultipleBondingCurves(this.provider, this.scheduler, bondingCurveAddresses);
+  }
+
+  /**
+   * Finds the transaction that created a bonding curve, the oldest successful one touching its
+   * address, since failed sniper buys can land before the create. Walks at most
+   * CREATION_INFO_MAX_PAGES pages, longer histories return a cursor and the oldest so far
+   * @param {string} bondingCurveAddress - target bonding curve
+   * @param {object} resume - where an earlier walk stopped and what it found, starts from the
+   * newest when unset
+   */
+  async getCreationInfo(
+    bondingCurveAddress: string,
+    resume?: { cursor: string; candidate: CreationInfo | null }
+  ): Promise<CreationInfoOutcome> {
+    try {
+      let before: Signature | undefined = resume ? signature(resume.cursor) : undefined;
+      let oldest: CreationInfo | null = resume?.candidate ?? null;
+
+      // Page back through the address history until we run out of signatures or pages
+      for (let pages = 0; pages < CREATION_INFO_MAX_PAGES; pages++) {
+        const page = await this.rpc('getSignaturesForAddress', client =>
+          client.rpc
+            .getSignaturesForAddress(address(bondingCurveAddress), {
+              before,
+              limit: SIGNATURES_PAGE_SIZE,
+            })
+            .send()
+        );
+
+        for (const entry of page) {
+          if (entry.err !== null) continue;
+
+          oldest = {
+            creationSignature: entry.signature,
+            creationSlot: Number(entry.slot),
+            creationTime:
+              entry.blockTime !== null ? new Date(Number(entry.blockTime) * 1000) : null,
+          };
         }
+
+        // A short page reaches the start of the history
+        if (page.length < SIGNATURES_PAGE_SIZE) {
+          if (!oldest) {
+            console.warn(
+              `No successful transactions found for bonding curve ${bondingCurveAddress}`
+            );
+            return { status: 'failed' };
+          }
+
+          return { status: 'found', info: oldest };
+        }
+
+        before = page[page.length - 1].signature;
       }
 
+      return { status: 'partial', cursor: before!, candidate: oldest };
+    } catch (error) {
       // Handle error message safely
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.warn('There was an error getting mint from getBondingCurveData()', errorMessage);
-      return null;
+      console.warn('There was an error getting the creation transaction', errorMessage);
+      return { status: 'failed' };
     }
   }
 
   /**
-   * Get token metadata using Helius getAsset endpoint with retry logic
+   * Get token metadata using the DAS getAsset method
+   * Rate limits and "Asset Not Found" (common for very new tokens) are retried by the scheduler
    * @param {string} tokenAddress - address we want to get metadata for
    * @param {number} maxRetries - maximum number of retry attempts
-   * @param {number} initialDelay - initial delay in milliseconds
    * @returns
    */
   async getTokenMetadata(
     tokenAddress: string,
-    maxRetries: number = 3,
-    initialDelay: number = 2000
+    maxRetries: number = 3
   ): Promise<TokenMetadata | null> {
-    if (!this.heliusUrl) {
+    if (!this.provider.supports('das')) {
       return null;
     }
 
@@ -217,150 +457,351 @@ class PumpFunTokenFetcher {
       },
     };
 
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        const response = await fetch(this.heliusUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(requestBody),
-        });
-
-        const data = await response.json();
-
-        // If something went wrong
-        if (data.error) {
-          console.log(`❌ Error fetching metadata for ${tokenAddress} (attempt ${attempt + 1}):`);
-
-          // Handle rate limiting
-          if (data.error.code === 429) {
-            const delay = Math.min(initialDelay * Math.pow(2, attempt), 30000); // Cap at 30 seconds
-            console.log(`⏱️ Rate limited, waiting ${delay}ms before retry...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue;
-          }
+    try {
+      const asset = await this.postJsonRpc<DasAsset>(
+        'das',
+        requestBody,
+        // Very new tokens aren't indexed yet
+        error =>
+          error.message.includes('Asset Not Found') || error.message.includes('RecordNotFound'),
+        maxRetries
+      );
+
+      // Success! Parse the result
+      console.log(`✅ Successfully fetched metadata for ${tokenAddress}`);
+
+      const tokenData = this.assetToTokenMetadata(tokenAddress, asset);
+      await this.applyCachedDocuments([tokenData]);
+      return tokenData;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`❌ Failed to fetch metadata for ${tokenAddress}: ${errorMessage}`);
+      return null;
+    }
+  }
 
-          // Handle "Asset Not Found" - this is common for very new tokens
-          if (
-            data.error.message.includes('Asset Not Found') ||
-            data.error.message.includes('RecordNotFound')
-          ) {
-            if (attempt < maxRetries) {
-              const delay = initialDelay * Math.pow(2, attempt); // Exponential backoff
-              console.log(
-                `⏳ Asset not found yet, waiting ${delay}ms before retry (${attempt + 1}/${
-                  maxRetries + 1
-                })...`
-              );
-              await new Promise(resolve => setTimeout(resolve, delay));
-              continue;
-            } else {
-              console.warn(
-                `⚠️ Asset still not found after ${maxRetries + 1} attempts: ${tokenAddress}`
-              );
-              return null;
-            }
-          }
+  /**
+   * Get metadata for many tokens with DAS getAssetBatch, up to 1000 mints per request
+   * Assets the batch returned as null (usually very new tokens) fall back to getTokenMetadata()
+   * and its retries, one mint at a time. Mints in a chunk that kept failing are left for a later run
+   * @param {string[]} tokenAddresses - mints we want metadata for
+   * @returns metadata by mint, mints that still couldn't be found are left out
+   */
+  async getTokenMetadataBatch(tokenAddresses: string[]): Promise<Map<string, TokenMetadata>> {
+    const metadata = new Map<string, TokenMetadata>();
+    if (!this.provider.supports('das') || tokenAddresses.length === 0) {
+      return metadata;
+    }
 
-          // For other errors, don't retry
-          console.warn(`⚠️ Non-retryable error for ${tokenAddress}: ${data.error.message}`);
-          return null;
-        }
+    const chunks: string[][] = [];
+    for (let i = 0; i < tokenAddresses.length; i += DAS_BATCH_LIMIT) {
+      chunks.push(tokenAddresses.slice(i, i + DAS_BATCH_LIMIT));
+    }
+
+    const missing = (
+      await Promise.all(chunks.map(chunk => this.fetchAssetBatch(chunk, metadata)))
+    ).flat();
+    console.log(
+      `✅ Fetched metadata for ${metadata.size}/${tokenAddresses.length} mints in batches${
+        missing.length > 0 ? `, retrying ${missing.length} one by one` : ''
+      }`
+    );
+
+    // getTokenMetadata() applies the cache to the ones it finds itself
+    await this.applyCachedDocuments([...metadata.values()]);
+
+    await Promise.all(
+      missing.map(async tokenAddress => {
+        const tokenData = await this.getTokenMetadata(tokenAddress);
+        if (tokenData) metadata.set(tokenAddress, tokenData);
+      })
+    );
+
+    return metadata;
+  }
+
+  /**
+   * Reads one getAssetBatch chunk into metadata, a failed chunk is halved and retried as batches
+   * @param {string[]} chunk - mints for one request
+   * @param {Map<string, TokenMetadata>} metadata - where the assets found are stored
+   * @param {number} splitsLeft - how many more times a failed chunk is halved
+   * @returns the mints DAS answered with null, mints of a chunk that kept failing aren't included
+   */
+  private async fetchAssetBatch(
+    chunk: string[],
+    metadata: Map<string, TokenMetadata>,
+    splitsLeft: number = DAS_BATCH_MAX_SPLITS
+  ): Promise<string[]> {
+    const requestBody = {
+      jsonrpc: '2.0',
+      id: 'get-asset-batch',
+      method: 'getAssetBatch',
+      params: {
+        ids: chunk,
+        options: {
+          showInscription: false,
+          showFungible: false,
+          showCollectionMetadata: false,
+          showUnverifiedCollections: false,
+        },
+      },
+    };
 
-        // Success! Parse the result
-        const asset = data.result;
-        console.log(`✅ Successfully fetched metadata for ${tokenAddress}`);
-
-        return {
-          mint: tokenAddress,
-          name: asset.content?.metadata?.name || 'Unknown Token',
-          symbol: asset.content?.metadata?.symbol || 'UNKNOWN',
-          uri: asset.content?.json_uri || '',
-          description: asset.content?.metadata?.description || '',
-          image: asset.content?.files?.[0]?.uri || '',
-        };
-      } catch {
-        console.error(`❌ Network error fetching metadata (attempt ${attempt + 1}):`);
-
-        if (attempt < maxRetries) {
-          const delay = initialDelay * Math.pow(2, attempt);
-          console.log(`⏱️ Waiting ${delay}ms before retry...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
+    try {
+      const assets = await this.postJsonRpc<(DasAsset | null)[] | null>('das', requestBody);
+
+      // Match by id, missing assets come back as null
+      for (const asset of assets || []) {
+        if (asset?.id) {
+          metadata.set(asset.id, this.assetToTokenMetadata(asset.id, asset));
         }
       }
+
+      return chunk.filter(tokenAddress => !metadata.has(tokenAddress));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`❌ getAssetBatch failed for ${chunk.length} mints: ${errorMessage}`);
+
+      // Leave them for a later run rather than a getAsset call per mint
+      if (splitsLeft === 0 || chunk.length === 1) return [];
+
+      const half = Math.ceil(chunk.length / 2);
+      const halves = await Promise.all([
+        this.fetchAssetBatch(chunk.slice(0, half), metadata, splitsLeft - 1),
+        this.fetchAssetBatch(chunk.slice(half), metadata, splitsLeft - 1),
+      ]);
+      return halves.flat();
+    }
+  }
+
+  /**
+   * Takes the description and image from metadata documents already in metadata_cache,
+   * the same document the listener stores, instead of what DAS indexed
+   * @param {TokenMetadata[]} metadata - token metadata from DAS, updated in place
+   */
+  private async applyCachedDocuments(metadata: TokenMetadata[]): Promise<void> {
+    const documents = await this.resolver.getCachedDocuments(metadata.map(token => token.uri));
+
+    for (const tokenData of metadata) {
+      const document = documents.get(tokenData.uri);
+      if (!document) continue;
+
+      tokenData.description = String(document.description || tokenData.description);
+      tokenData.image = String(document.image || tokenData.image);
     }
+  }
 
-    console.warn(
-      `❌ Failed to fetch metadata for ${tokenAddress} after ${maxRetries + 1} attempts`
-    );
-    return null;
+  /**
+   * Maps a DAS asset to our metadata shape
+   */
+  private assetToTokenMetadata(tokenAddress: string, asset: DasAsset): TokenMetadata {
+    return {
+      mint: tokenAddress,
+      name: asset.content?.metadata?.name || 'Unknown Token',
+      symbol: asset.content?.metadata?.symbol || 'UNKNOWN',
+      uri: asset.content?.json_uri || '',
+      description: asset.content?.metadata?.description || '',
+      image: asset.content?.files?.[0]?.uri || '',
+    };
   }
 
   /**
-   * Get the token data using a token address
-   * @param {string} tokenAddress - address we want to get metadata for
-   * @returns
+   * Builds the full token row for a mint, the same row the backfill would store
+   * Creation info is left empty, fillMissingCreationInfo() fills it in later
+   * @param {string} tokenAddress - target mint
+   * @returns the token, not_found when the mint has no bonding curve, or why it couldn't be read
    */
-  async getDataWithTokenAddress(tokenAddress: string) {
+  async getTokenDocumentWithTokenAddress(tokenAddress: string): Promise<TokenLookupOutcome> {
     console.log(`🔍 Getting token data for mint: ${tokenAddress}`);
 
     try {
-      const mint = address(tokenAddress);
-
-      // Use your existing pattern to get bonding curve
-      const [bondingCurve, ,] = await getProgramDerivedAddress({
-        seeds: ['bonding-curve', getAddressEncoder().encode(mint)],
-        programAddress: address(PUMPFUN_PROGRAM_ID),
-      });
-
-      // Get bonding curve data using your existing function
-      const bondingCurveData = await this.getBondingCurveData(bondingCurve);
+      const bondingCurveAddress = await this.getBondingCurveAddress(address(tokenAddress));
+      const bondingCurveData = await this.readBondingCurve(bondingCurveAddress);
 
-      // Get metadata
-      const metadata = await this.getTokenMetadata(mint);
+      if (!bondingCurveData) {
+        return { status: 'not_found' };
+      }
 
-      return {
-        tokenAddress,
-        bondingCurveAddress: bondingCurve.toString(),
-        bondingCurveData,
-        tokenData: metadata,
-      };
+      return this.toLookupOutcome(
+        await this.buildLookupDocument(bondingCurveAddress, bondingCurveData, tokenAddress)
+      );
     } catch (error) {
       console.error(`❌ Error getting token ${tokenAddress}:`, error);
-      return null;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { status: 'failed', reason: errorMessage };
+    }
+  }
+
+  /**
+   * Adds the metadata and mint of a looked up curve, a missing DAS endpoint fails the lookup
+   */
+  private async buildLookupDocument(
+    bondingCurveAddress: string,
+    bondingCurveData: BondingCurveData,
+    tokenAddress: string
+  ): Promise<BondingCurveOutcome> {
+    if (!this.provider.supports('das')) {
+      return { status: 'failed', reason: 'No DAS endpoint configured for token metadata' };
+    }
+
+    const tokenData = await this.getTokenMetadata(tokenAddress);
+    if (!tokenData) {
+      return { status: 'failed', reason: `Could not get token data for ${tokenAddress}` };
+    }
+
+    return await this.buildTokenDocument(
+      bondingCurveAddress,
+      bondingCurveData,
+      tokenAddress,
+      tokenData,
+      await this.getMintInfo(tokenAddress),
+      false
+    );
+  }
+
+  /**
+   * Maps a resolved curve to a lookup outcome, skipped curves hold no single mint to return
+   */
+  private toLookupOutcome(outcome: BondingCurveOutcome): TokenLookupOutcome {
+    if (outcome.status === 'done') {
+      return { status: 'found', token: outcome.token };
     }
+
+    console.warn(outcome.reason);
+    return outcome.status === 'skipped'
+      ? { status: 'not_found' }
+      : { status: 'failed', reason: outcome.reason };
+  }
+
+  /**
+   * Derives a mint's bonding curve PDA
+   */
+  private async getBondingCurveAddress(mint: Address): Promise<string> {
+    const [bondingCurve, ,] = await getProgramDerivedAddress({
+      seeds: ['bonding-curve', getAddressEncoder().encode(mint)],
+      programAddress: address(PUMPFUN_PROGRAM_ID),
+    });
+
+    return bondingCurve.toString();
   }
 
   /**
    * Gets the token data using a bonding curve address
    * @param {string} bondingCurveAddress - target bonding curve
+   * @returns the token, not_found when there is no pump.fun token at the address, or why it
+   * couldn't be read
    */
-  async getDataWithBondingCurveAddress(bondingCurveAddress: string): Promise<TokenDocument | null> {
+  async getDataWithBondingCurveAddress(bondingCurveAddress: string): Promise<TokenLookupOutcome> {
     try {
-      // Get the bonding curve data
-      const bondingCurveData = await this.getBondingCurveData(bondingCurveAddress);
+      const bondingCurveData = await this.readBondingCurve(bondingCurveAddress);
 
       if (!bondingCurveData) {
-        console.warn(`Could not get bonding curve data for ${bondingCurveAddress}`);
-        return null;
+        return { status: 'not_found' };
       }
 
-      // Get the token address using the bonding curve address
-      const tokenAddress = await this.getMintFromBondingCurveATA(bondingCurveAddress);
+      return this.toLookupOutcome(
+        await this.resolveBondingCurve(bondingCurveAddress, bondingCurveData)
+      );
+    } catch (error) {
+      console.error(`❌ Error getting bonding curve ${bondingCurveAddress}:`, error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { status: 'failed', reason: errorMessage };
+    }
+  }
 
-      if (!tokenAddress) {
-        console.warn(`Could not get token address for ${bondingCurveAddress}`);
-        return null;
+  /**
+   * Resolves a bonding curve into a token document, or the reason it couldn't be
+   * @param {string} bondingCurveAddress - target bonding curve
+   * @param {BondingCurveData} bondingCurveData - the curve, already read
+   */
+  private async resolveBondingCurve(
+    bondingCurveAddress: string,
+    bondingCurveData: BondingCurveData
+  ): Promise<BondingCurveOutcome> {
+    const mint = await this.resolveMint(bondingCurveAddress, bondingCurveData);
+    if (mint.status !== 'resolved') return mint;
+
+    // Get the token data with the token address
+    const tokenData = await this.getTokenMetadata(mint.tokenAddress);
+
+    if (!tokenData) {
+      return { status: 'failed', reason: `Could not get token data for ${mint.tokenAddress}` };
+    }
+
+    return await this.buildTokenDocument(
+      bondingCurveAddress,
+      mint.bondingCurveData,
+      mint.tokenAddress,
+      tokenData,
+      mint.mintInfo
+    );
+  }
+
+  /**
+   * Reads a bonding curve and finds its mint
+   * @param {string} bondingCurveAddress - target bonding curve
+   * @param {BondingCurveData | null} prefetched - curve data already read in bulk, skips getAccountInfo
+   */
+  private async resolveMint(
+    bondingCurveAddress: string,
+    prefetched?: BondingCurveData | null
+  ): Promise<MintOutcome> {
+    try {
+      // Get the bonding curve data
+      const bondingCurveData = prefetched ?? (await this.getBondingCurveData(bondingCurveAddress));
+
+      if (!bondingCurveData) {
+        return { status: 'failed', reason: 'Could not get bonding curve data' };
       }
 
-      // Get the token data with the token address
-      const tokenData = await this.getTokenMetadata(tokenAddress);
+      // Get the token address using the bonding curve address
+      const mint = await this.getMintFromBondingCurveATA(bondingCurveAddress);
 
-      if (!tokenData) {
-        console.warn(`Could not get token data for ${tokenAddress}`);
-        return null;
+      // The curve doesn't hold exactly one token account, retrying won't change that
+      if (!mint) {
+        return { status: 'skipped', reason: 'Could not get token address' };
       }
 
+      // Only Token-2022 mints can have extensions, skip the extra read for classic ones
+      const extensions =
+        mint.tokenProgram === TOKEN_2022_PROGRAM_ADDRESS
+          ? ((await this.getMintInfo(mint.mint))?.extensions ?? null)
+          : [];
+
       return {
+        status: 'resolved',
+        bondingCurveData,
+        tokenAddress: mint.mint,
+        mintInfo: { tokenProgram: mint.tokenProgram, extensions },
+      };
+    } catch (error) {
+      console.error(`❌ Error processing bonding curve ${bondingCurveAddress}:`, error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { status: 'failed', reason: errorMessage };
+    }
+  }
+
+  /**
+   * Combines a curve, its mint and metadata into a token document with its creation transaction
+   * @param {boolean} withCreationInfo - walk the curve's signature history for its creation transaction
+   */
+  private async buildTokenDocument(
+    bondingCurveAddress: string,
+    bondingCurveData: BondingCurveData,
+    tokenAddress: string,
+    tokenData: TokenMetadata,
+    mintInfo: MintInfo | null,
+    withCreationInfo: boolean = true
+  ): Promise<BondingCurveOutcome> {
+    // Missing creation info isn't fatal, fillMissingCreationInfo() picks it up later
+    const creationLookup = withCreationInfo
+      ? await this.getCreationInfo(bondingCurveAddress)
+      : null;
+    const creationInfo = creationLookup?.status === 'found' ? creationLookup.info : null;
+
+    return {
+      status: 'done',
+      token: {
         bondingCurveAddress,
         complete: bondingCurveData.complete,
         creator: bondingCurveData.creator,
@@ -370,22 +811,35 @@ class PumpFunTokenFetcher {
         uri: tokenData.uri,
         description: tokenData.description,
         image: tokenData.image,
-      };
-    } catch (error) {
-      console.error(`❌ Error processing bonding curve ${bondingCurveAddress}:`, error);
-      return null;
-    }
+        tokenProgram: mintInfo?.tokenProgram,
+        tokenExtensions: mintInfo?.extensions ?? undefined,
+        creationSignature: creationInfo?.creationSignature,
+        creationSlot: creationInfo?.creationSlot,
+        creationTime: creationInfo?.creationTime?.toISOString(),
+        virtualTokenReserves: bondingCurveData.virtualTokenReserves,
+        virtualSolReserves: bondingCurveData.virtualSolReserves,
+        realTokenReserves: bondingCurveData.realTokenReserves,
+        realSolReserves: bondingCurveData.realSolReserves,
+        tokenTotalSupply: bondingCurveData.tokenTotalSupply,
+        ...computeCurveMetrics(
+          bondingCurveData,
+          await this.protocolParams.getCurveParamsAt(creationInfo?.creationSlot)
+        ),
+        curveUpdatedAt: new Date().toISOString(),
+      },
+    };
   }
 
   /**
-   * Uses the helius getProgramAccounts endpoint and filters by the bonding curve discriminator
+   * Uses the getProgramAccounts endpoint and filters by the bonding curve discriminator
    * which will return all of the bonding curve accounts
+   * @param {boolean} withData - return the full account data instead of just the addresses
+   * @param {number} partition - only return curves whose creator starts with this byte
    */
-  async getBondingCurvesFromProgramAccounts(): Promise<ProgramAccount[] | null> {
-    if (!this.heliusUrl) {
-      throw new Error('Helius API key required for getProgramAccounts');
-    }
-
+  async getBondingCurvesFromProgramAccounts(
+    withData: boolean = false,
+    partition?: number
+  ): Promise<ProgramAccount[] | null> {
     // Request body
     const requestBody = {
       jsonrpc: '2.0',
@@ -403,47 +857,78 @@ class PumpFunTokenFetcher {
               },
             },
             {
-              dataSize: 81, // Size of the bonding curve account
+              dataSize: BONDING_CURVE_SIZE, // Size of the bonding curve account
             },
+            // Creators are spread evenly, so their first byte splits the program into even parts
+            ...(partition === undefined
+              ? []
+              : [
+                  {
+                    memcmp: {
+                      offset: BONDING_CURVE_CREATOR_OFFSET,
+                      bytes: bs58.encode(Buffer.from([partition])),
+                    },
+                  },
+                ]),
           ],
-          dataSlice: {
-            offset: 0,
-            length: 0,
-          },
+          // Without data we only get the addresses back
+          ...(withData ? {} : { dataSlice: { offset: 0, length: 0 } }),
         },
       ],
     };
 
     try {
-      // Make the call to the helius endpoint
-      const response = await fetch(this.heliusUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestBody),
-      });
-
-      // get the response data
-      const data: GetProgramAccountsResponse = await response.json();
+      // getProgramAccounts is heavy, Helius answers an overloaded one with -32600
+      const accounts = await this.postJsonRpc<ProgramAccount[] | null>(
+        'rpc',
+        requestBody,
+        error => error.code === -32600
+      );
+
+      return accounts || null;
+    } catch (error) {
+      console.warn('There was an error with the getProgramAccounts call', error);
+      return null;
+    }
+  }
 
-      if (data.error) {
-        // Retry if we got rate limited
-        if (data.error.code === -32600) {
-          if (this.retries < 5) {
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            this.retries++;
-            return await this.getBondingCurvesFromProgramAccounts();
-          }
-        } else {
-          console.log('get program data returned an error');
-          return null;
-        }
+  /**
+   * Reads every bonding curve one partition at a time, so no single getProgramAccounts
+   * response or batch in memory holds the whole program
+   * @param {boolean} withData - return the full account data instead of just the addresses
+   * @param {(accounts: ProgramAccount[]) => Promise<void>} onPartition - handles a partition
+   * before the next one is read
+   * @returns the number of partitions that couldn't be read
+   */
+  async forEachBondingCurvePartition(
+    withData: boolean,
+    onPartition: (accounts: ProgramAccount[]) => Promise<void>
+  ): Promise<number> {
+    let failed = 0;
+
+    for (let partition = 0; partition < BONDING_CURVE_PARTITIONS; partition++) {
+      const accounts = await this.getBondingCurvesFromProgramAccounts(withData, partition);
+      if (!accounts) {
+        failed++;
+        continue;
       }
 
-      this.retries = 0; // reset counter
-      return data.result || null;
+      await onPartition(accounts);
+    }
+
+    return failed;
+  }
+
+  /**
+   * Decodes a bonding curve downloaded with getProgramAccounts
+   * @returns the curve, null if its data couldn't be decoded
+   */
+  private decodeProgramAccount(account: ProgramAccount): BondingCurveData | null {
+    try {
+      return decodeBondingCurve(Buffer.from(account.account.data[0], 'base64'));
     } catch (error) {
-      console.warn('There was an error with the Helius getProgramAccounts call', error);
-      this.retries = 0; // reset counter
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`Could not decode bonding curve ${account.pubkey}`, errorMessage);
       return null;
     }
   }
@@ -461,94 +946,350 @@ class PumpFunTokenFetcher {
     }
   }
 
+  /**
+   * Reads the Global account and stores it in the protocol params history, so changes
+   * the listener missed still show up
+   * @returns {Promise<boolean>} whether the snapshot was recorded, unchanged params aren't stored again
+   */
+  async snapshotGlobalParams(): Promise<boolean> {
+    try {
+      const params = await getGlobalParams(this.provider, this.scheduler);
+      if (!params) {
+        console.warn('⚠️ Global account not found');
+        return false;
+      }
+
+      if (!(await insertProtocolParamsToDB(params))) return false;
+      this.protocolParams.add(params);
+
+      console.log(
+        `⚙️ Protocol params at slot ${params.slot}: fee ${params.feeBasisPoints}bps, creator fee ${params.creatorFeeBasisPoints}bps`
+      );
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('❌ Error snapshotting the Global account:', errorMessage);
+      return false;
+    }
+  }
+
   /**
    * Update token list using database instead of file system
-   * This processes only new bonding curves that haven't been processed yet
+   * New bonding curves are written to the backfill work list first, so an interrupted
+   * run picks up where it stopped instead of diffing the whole program again
+   * @param {BackfillOptions} options - discovery and run limits
    */
-  async getFreshTokenList(): Promise<void> {
+  async getFreshTokenList(options: BackfillOptions = {}): Promise<BackfillSummary> {
     console.log('🔄 Starting incremental update process...');
 
-    // Get all bonding curves using the Helius
-    let bondingcurveAccounts;
-    try {
-      bondingcurveAccounts = await this.getBondingCurvesFromProgramAccounts();
-    } catch (error) {
-      console.log('ERROR FROM GETING ', error);
+    // Get existing addresses from the DB, a Set keeps the diff linear
+    const existingAddresses = new Set(await this.getAllBondingCurveAddresses());
+    const backfillStats = await getBackfillStatsFromDB();
+
+    if (options.dryRun) {
+      return await this.previewBackfill(existingAddresses, backfillStats?.pending ?? 0, options);
     }
 
-    if (!bondingcurveAccounts) return;
+    await this.snapshotGlobalParams();
 
-    console.log(`📊 Found ${bondingcurveAccounts.length} total bonding curves on-chain`);
+    let curveData = new Map<string, BondingCurveData>();
+    if (backfillStats && backfillStats.pending > 0 && !options.rediscover) {
+      console.log(`⏯️ Resuming backfill with ${backfillStats.pending} pending bonding curves`);
+    } else {
+      curveData = await this.discoverNewBondingCurves(
+        existingAddresses,
+        options.fullAccountData ?? true
+      );
+    }
 
-    // Extract just the bonding curve addresses from the data
-    const bondingAddresses = bondingcurveAccounts.map(
-      (bonding: { pubkey: string }) => bonding.pubkey
-    );
+    const summary = await this.runBackfill(existingAddresses, curveData, options.limit);
 
-    // Get existing addresses from MongoDB (using as primary source)
-    const existingAddresses = await this.getAllBondingCurveAddresses();
-    console.log(`📋 Found ${existingAddresses.length} previously processed addresses in database`);
+    console.log('\n📋 Backfill summary:');
+    console.log(`   Done: ${summary.done}`);
+    console.log(`   Skipped: ${summary.skipped}`);
+    console.log(`   Failed: ${summary.failed}`);
+    console.log(`   Still pending: ${summary.remaining}`);
+    console.log(`   Took: ${(summary.elapsedMs / 1000).toFixed(1)}s`);
 
-    // Find new addresses that haven't been processed yet
-    const newAddresses = bondingAddresses.filter(
-      (address: string) => !existingAddresses.includes(address)
+    const rpcStats = this.scheduler.getStats();
+    console.log('\n📡 RPC stats:');
+    console.log(
+      `   Requests: ${rpcStats.requests} (${rpcStats.succeeded} ok, ${rpcStats.failed} gave up)`
     );
+    console.log(`   Retries: ${rpcStats.retries}, rate limited: ${rpcStats.rateLimited}`);
+    console.log(
+      `   Throughput: ${rpcStats.requestsPerSecond.toFixed(1)} req/s, average latency ${rpcStats.averageLatency.toFixed(0)}ms`
+    );
+    for (const endpoint of this.provider.getStats()) {
+      console.log(
+        `   ${endpoint.name}: ${endpoint.requests} requests, ${(endpoint.errorRate * 100).toFixed(1)}% errors (${endpoint.rateLimited} rate limited), average latency ${endpoint.averageLatency.toFixed(0)}ms`
+      );
+    }
 
-    console.log(`🆕 Found ${newAddresses.length} new bonding curves to process`);
+    // Display final stats from both databases
+    await this.displayDatabaseStats();
 
-    if (newAddresses.length === 0) {
-      console.log('✅ No new bonding curves to process!');
-      return;
-    }
+    return summary;
+  }
 
-    const BATCH_SIZE = 100;
-    let processedCount = 0;
-    let tokenBatch: TokenDocument[] = [];
+  /**
+   * Counts what a backfill would process without queueing or storing anything
+   * @param {Set<string>} existingAddresses - bonding curves already in the tokens table
+   * @param {number} pending - items already waiting in the work list
+   * @param {BackfillOptions} options - the options the real run would use
+   */
+  private async previewBackfill(
+    existingAddresses: Set<string>,
+    pending: number,
+    options: BackfillOptions
+  ): Promise<BackfillSummary> {
+    const startedAt = Date.now();
+    let queued = pending;
+
+    if (pending > 0 && !options.rediscover) {
+      console.log(`⏯️ Would resume backfill with ${pending} pending bonding curves`);
+    } else {
+      // Addresses are enough to count the diff
+      let total = 0;
+      let found = 0;
+      const failed = await this.forEachBondingCurvePartition(false, async accounts => {
+        total += accounts.length;
+        found += accounts.filter(account => !existingAddresses.has(account.pubkey)).length;
+      });
+      if (failed > 0) {
+        throw new Error(`Could not read ${failed} bonding curve partitions from the program`);
+      }
 
-    console.log(`🚀 Starting to process ${newAddresses.length} new bonding curves...`);
+      console.log(`📊 Found ${total} total bonding curves on-chain`);
+      console.log(`🆕 Would queue ${found} new bonding curves`);
+      queued += found;
+    }
+
+    const toProcess = Math.min(queued, options.limit ?? queued);
+    console.log(`🧪 Dry run: would process ${toProcess} of ${queued} bonding curves`);
 
-    for (let i = 0; i < newAddresses.length; i++) {
-      try {
-        console.log(`Processing ${i + 1}/${newAddresses.length} - Address: ${newAddresses[i]}`);
+    return { done: 0, failed: 0, skipped: 0, remaining: queued, elapsedMs: Date.now() - startedAt };
+  }
 
-        const tokenData = await this.getDataWithBondingCurveAddress(newAddresses[i]);
-        if (tokenData) {
-          tokenBatch.push(tokenData);
-          processedCount++;
+  /**
+   * Diffs the program's bonding curves against the DB and queues the new ones, one
+   * getProgramAccounts partition at a time
+   * @param {Set<string>} existingAddresses - bonding curves already in the tokens table
+   * @param {boolean} fullAccountData - download the curves' data too, not just their addresses
+   * @returns the decoded data of up to MAX_PREFETCHED_CURVES new curves, empty when only
+   * addresses were downloaded
+   */
+  async discoverNewBondingCurves(
+    existingAddresses: Set<string>,
+    fullAccountData: boolean
+  ): Promise<Map<string, BondingCurveData>> {
+    const newCurveData = new Map<string, BondingCurveData>();
+    let total = 0;
+    let found = 0;
+    let queued = 0;
+
+    const failed = await this.forEachBondingCurvePartition(fullAccountData, async accounts => {
+      total += accounts.length;
+
+      // Find new addresses that haven't been processed yet
+      const newAccounts = accounts.filter(account => !existingAddresses.has(account.pubkey));
+      found += newAccounts.length;
+
+      // Curves past the cap are read 100 at a time when their batch is processed
+      if (fullAccountData) {
+        for (const account of newAccounts) {
+          if (newCurveData.size >= MAX_PREFETCHED_CURVES) break;
+
+          const curve = this.decodeProgramAccount(account);
+          if (curve) newCurveData.set(account.pubkey, curve);
         }
+      }
 
-        // Process batch when it reaches BATCH_SIZE or at the end
-        if (tokenBatch.length >= BATCH_SIZE || i === newAddresses.length - 1) {
-          if (tokenBatch.length > 0) {
-            console.log(`💾 Storing batch of ${tokenBatch.length} tokens to both databases...`);
+      queued += await enqueueBackfillItemsToDB(newAccounts.map(account => account.pubkey));
+    });
 
-            // Insert to DB
-            const postgreResult = await insertTokensBatchToDB(tokenBatch);
-            console.log(
-              `   Postgre - Inserted: ${postgreResult.inserted}, Duplicates: ${postgreResult.duplicates}, Errors: ${postgreResult.errors}`
-            );
+    if (failed > 0) {
+      console.warn(
+        `⚠️ Could not read ${failed}/${BONDING_CURVE_PARTITIONS} bonding curve partitions, run backfill --rediscover to retry them`
+      );
+    }
+
+    console.log(`📊 Found ${total} total bonding curves on-chain`);
+    console.log(`🆕 Found ${found} new bonding curves to process`);
+    console.log(`📥 Added ${queued} bonding curves to the backfill work list`);
+
+    return newCurveData;
+  }
+
+  /**
+   * Works through the pending backfill items in batches, recording each item's outcome
+   * as soon as its batch is stored so a crash loses at most one batch
+   * @param {Set<string>} existingAddresses - bonding curves already in the tokens table
+   * @param {Map<string, BondingCurveData>} curveData - curves decoded during discovery, the
+   * rest are read 100 at a time with getMultipleAccounts
+   * @param {number} limit - max items processed in this run, the rest stay pending
+   */
+  async runBackfill(
+    existingAddresses: Set<string>,
+    curveData: Map<string, BondingCurveData> = new Map(),
+    limit: number = Infinity
+  ): Promise<BackfillSummary> {
+    const BATCH_SIZE = 500;
+    const startedAt = Date.now();
+    const summary: BackfillSummary = { done: 0, failed: 0, skipped: 0, remaining: 0, elapsedMs: 0 };
+    let lastId = 0;
+    let processed = 0;
+
+    console.log('🚀 Starting to process pending bonding curves...');
+
+    while (processed < limit) {
+      const items = await getPendingBackfillItemsFromDB(
+        Math.min(BATCH_SIZE, limit - processed),
+        lastId
+      );
+      if (items.length === 0) break;
+      processed += items.length;
+      lastId = items[items.length - 1].id;
+
+      const tokenBatch: TokenDocument[] = [];
+
+      // Read the curves we don't have yet in bulk, resumed runs start with none
+      const missingAddresses = items
+        .map(item => item.bondingCurveAddress)
+        .filter(address => !existingAddresses.has(address) && !curveData.has(address));
+      const fetchedCurves = await this.getMultipleBondingCurveData(missingAddresses);
+
+      const recordFailure = async (bondingCurveAddress: string, failure: BondingCurveFailure) => {
+        console.warn(`⚠️ ${failure.status} ${bondingCurveAddress}: ${failure.reason}`);
+        await markBackfillItemsInDB([bondingCurveAddress], failure.status, failure.reason);
+        summary[failure.status]++;
+      };
 
-            // Clear the batch for next round
-            tokenBatch = [];
+      // Resolve the whole batch at once, the scheduler keeps us inside the rate limit
+      const mints = await Promise.all(
+        items.map(async item => {
+          // The listener may have indexed it since it was queued
+          if (existingAddresses.has(item.bondingCurveAddress)) {
+            await recordFailure(item.bondingCurveAddress, {
+              status: 'skipped',
+              reason: 'Already indexed',
+            });
+            return null;
           }
 
-          console.log(`📊 Progress: ${processedCount}/${newAddresses.length} new tokens processed`);
-        }
-      } catch (error) {
-        console.error(
-          `❌ Error processing bonding curve at index ${i} (${newAddresses[i]}):`,
-          error
+          const prefetched =
+            curveData.get(item.bondingCurveAddress) ?? fetchedCurves.get(item.bondingCurveAddress);
+          curveData.delete(item.bondingCurveAddress);
+
+          const outcome = await this.resolveMint(item.bondingCurveAddress, prefetched);
+          if (outcome.status !== 'resolved') {
+            await recordFailure(item.bondingCurveAddress, outcome);
+            return null;
+          }
+
+          return { bondingCurveAddress: item.bondingCurveAddress, ...outcome };
+        })
+      );
+      const resolved = mints.filter(mint => mint !== null);
+
+      // One getAssetBatch call for the whole page instead of a getAsset per mint
+      const metadata = await this.getTokenMetadataBatch(resolved.map(mint => mint.tokenAddress));
+
+      await Promise.all(
+        resolved.map(async ({ bondingCurveAddress, bondingCurveData, tokenAddress, mintInfo }) => {
+          const tokenData = metadata.get(tokenAddress);
+          if (!tokenData) {
+            await recordFailure(bondingCurveAddress, {
+              status: 'failed',
+              reason: `Could not get token data for ${tokenAddress}`,
+            });
+            return;
+          }
+
+          const outcome = await this.buildTokenDocument(
+            bondingCurveAddress,
+            bondingCurveData,
+            tokenAddress,
+            tokenData,
+            mintInfo
+          );
+          if (outcome.status === 'done') {
+            tokenBatch.push(outcome.token);
+          } else {
+            await recordFailure(bondingCurveAddress, outcome);
+          }
+        })
+      );
+
+      if (tokenBatch.length > 0) {
+        console.log(`💾 Storing batch of ${tokenBatch.length} tokens...`);
+
+        // Insert to DB
+        const postgreResult = await insertTokensBatchToDB(tokenBatch);
+        console.log(
+          `   Postgre - Inserted: ${postgreResult.inserted}, Duplicates: ${postgreResult.duplicates}, Errors: ${postgreResult.errors}`
         );
-        continue;
+
+        const addresses = tokenBatch.map(token => token.bondingCurveAddress);
+        if (postgreResult.errors === 0) {
+          await markBackfillItemsInDB(addresses, 'done');
+          summary.done += addresses.length;
+          addresses.forEach(address => existingAddresses.add(address));
+        } else {
+          await markBackfillItemsInDB(addresses, 'failed', 'Database insert failed');
+          summary.failed += addresses.length;
+        }
       }
+
+      const rpcStats = this.scheduler.getStats();
+      console.log(
+        `📊 Progress: ${summary.done} done, ${summary.skipped} skipped, ${summary.failed} failed (${rpcStats.requestsPerSecond.toFixed(1)} req/s, ${rpcStats.rateLimited} rate limited)`
+      );
     }
 
-    console.log(
-      `✅ Completed incremental update! Processed ${processedCount} new tokens out of ${newAddresses.length} new bonding curves.`
+    summary.remaining = (await getBackfillStatsFromDB())?.pending ?? 0;
+    summary.elapsedMs = Date.now() - startedAt;
+    return summary;
+  }
+
+  /**
+   * Resolves the creation transaction for tokens stored without one
+   * @param {number} limit - max tokens to resolve in this run
+   * @returns the number of tokens updated
+   */
+  async fillMissingCreationInfo(limit: number = 1000): Promise<number> {
+    const missing = await getTokensMissingCreationInfoFromDB(limit);
+    console.log(`🕰️ Resolving creation info for ${missing.length} tokens...`);
+
+    let updated = 0;
+    await Promise.all(
+      missing.map(async ({ tokenAddress, bondingCurveAddress, attempts, cursor, candidate }) => {
+        const outcome = await this.getCreationInfo(
+          bondingCurveAddress,
+          cursor ? { cursor, candidate } : undefined
+        );
+
+        if (outcome.status === 'found') {
+          if (await updateTokenCreationInfoInDB(tokenAddress, outcome.info)) updated++;
+          return;
+        }
+
+        // A long history isn't a failure, the next run continues the walk
+        if (outcome.status === 'partial') {
+          await updateTokenCreationInfoInDB(tokenAddress, outcome.candidate, outcome.cursor);
+          return;
+        }
+
+        const delay = Math.min(
+          CREATION_INFO_BASE_BACKOFF * Math.pow(2, attempts),
+          CREATION_INFO_MAX_BACKOFF
+        );
+        await failTokenCreationInfoInDB(tokenAddress, new Date(Date.now() + delay));
+      })
     );
 
-    // Display final stats from both databases
-    await this.displayDatabaseStats();
+    console.log(`✅ Resolved creation info for ${updated}/${missing.length} tokens`);
+    return updated;
   }
 
   /**
@@ -569,27 +1310,4 @@ class PumpFunTokenFetcher {
   }
 }
 
-// main function that uses database instead of files
-async function main() {
-  // Initialize connection
-  const connection: SolanaClient<string> = createSolanaClient({
-    urlOrMoniker: `${process.env.HELIUS_RPC_URL}`,
-  });
-
-  // Create an instance of the pumpfun token fetcher class
-  const fetcher = new PumpFunTokenFetcher(connection, `${process.env.HELIUS_KEY}`);
-
-  try {
-    // Update the db with the new tokens created
-    await fetcher.getFreshTokenList();
-
-    process.exit(0);
-  } catch (error) {
-    console.error('❌ Error in main process:', error);
-    process.exit(1);
-  }
-}
-
-main();
-
 export { PumpFunTokenFetcher, bondingCurveSchema };
@@ -0,0 +1,68 @@
+// src/lib/models/PumpfunTokenLookup.ts
+import { PumpFunTokenFetcher } from './PumpfunTokenFetcher';
+import { getTokenByAddressFromDB, insertTokenToDB, TokenDocument } from '../db/queries';
+
+// not_found when the mint has no pump.fun bonding curve, failed when RPC or DAS couldn't be read
+export type TokenLookupResult =
+  | { status: 'found'; token: TokenDocument; source: 'database' | 'rpc' } // rpc when just indexed
+  | { status: 'not_found' }
+  | { status: 'failed'; reason: string };
+
+/**
+ * Looks tokens up in the database and indexes the ones it doesn't know yet from RPC
+ * Concurrent lookups for the same mint share one RPC round trip
+ */
+export class PumpFunTokenLookup {
+  private fetcher: PumpFunTokenFetcher;
+  private inFlight: Map<string, Promise<TokenLookupResult>> = new Map();
+
+  /**
+   * Constructor
+   * @param {PumpFunTokenFetcher} fetcher - reads the curve and metadata of unknown mints
+   */
+  constructor(fetcher: PumpFunTokenFetcher) {
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Gets a token by mint, fetching and storing it when it isn't in the database
+   * @param {string} tokenAddress - target mint
+   * @returns the token, or whether it isn't a pump.fun token or couldn't be read
+   */
+  async lookup(tokenAddress: string): Promise<TokenLookupResult> {
+    const existing = await getTokenByAddressFromDB(tokenAddress);
+    if (existing) {
+      return { status: 'found', token: existing, source: 'database' };
+    }
+
+    // Join the lookup already running for this mint
+    let pending = this.inFlight.get(tokenAddress);
+    if (!pending) {
+      pending = this.fetchAndStore(tokenAddress).finally(() => {
+        this.inFlight.delete(tokenAddress);
+      });
+      this.inFlight.set(tokenAddress, pending);
+    }
+
+    return await pending;
+  }
+
+  private async fetchAndStore(tokenAddress: string): Promise<TokenLookupResult> {
+    console.log(`🔍 Looking up unindexed mint ${tokenAddress}`);
+
+    const outcome = await this.fetcher.getTokenDocumentWithTokenAddress(tokenAddress);
+    if (outcome.status !== 'found') return outcome;
+
+    const { token } = outcome;
+    if (!(await insertTokenToDB(token))) {
+      // Still worth returning, the next lookup will try to store it again
+      console.error(`❌ Failed to store looked up token ${tokenAddress}`);
+      return { status: 'found', token, source: 'rpc' };
+    }
+
+    // Read it back so the response matches what the token list returns
+    const stored = await getTokenByAddressFromDB(tokenAddress);
+    console.log(`💾 Indexed ${token.symbol} (${tokenAddress}) on demand`);
+    return { status: 'found', token: stored ?? token, source: 'rpc' };
+  }
+}
@@ -7,6 +7,12 @@ export type TokenMetadata = {
   image: string;
 };
 
+// A Token-2022 mint extension as returned by jsonParsed, e.g. transferFeeConfig or metadataPointer
+export type TokenExtension = {
+  extension: string;
+  state?: Record<string, unknown>;
+};
+
 export type BondingCurveData = {
   discriminator: Uint8Array;
   virtualTokenReserves: string;
@@ -24,3 +30,11 @@ export type Token = {
   bondingCurveData: BondingCurveData;
   tokenData: TokenMetadata;
 };
+
+export type ProgramLogs = {
+  signature: string;
+  slot: number;
+  err: unknown; // transaction error, null when it succeeded
+  logs: string[];
+  receivedAt: number; // unix ms when the logs were received
+};